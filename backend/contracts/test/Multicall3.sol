@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice aggregate3 from Multicall3 (https://github.com/mds1/multicall), for batching claims in tests.
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(calls[i].callData);
+            if (!success && !calls[i].allowFailure) {
+                assembly {
+                    revert(add(ret, 0x20), mload(ret))
+                }
+            }
+            returnData[i] = Result(success, ret);
+        }
+    }
+}
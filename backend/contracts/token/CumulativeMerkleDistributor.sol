@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @notice Cumulative-entitlement claims: each leaf carries the total an account
+/// has earned to date, and a claim pays out the difference from what it already received.
+/// Leaf = keccak256(abi.encodePacked(account, cumulativeAmount))
+contract CumulativeMerkleDistributor is Ownable {
+    IERC20  public immutable token;
+    uint256 public immutable rewardAmount;      // entitlement added per eligible round (read by the builder)
+    bytes32 public merkleRoot;
+    uint64 public round;
+
+    // total already paid out per account
+    mapping(address => uint256) public claimed;
+
+    event RootUpdated(bytes32 indexed newRoot, uint64 indexed newRound);
+    event Claimed(uint64 indexed round, address indexed account, uint256 amount);
+
+    constructor(address initialOwner, IERC20 _token, uint256 _rewardAmount) Ownable(initialOwner) {
+        token = _token;
+        rewardAmount = _rewardAmount;
+    }
+
+    function setRoot(bytes32 newRoot, uint64 newRound) external onlyOwner {
+        require(newRoot != bytes32(0), "ROOT_0");
+        require(newRound >= round, "ROUND_BACKWARDS");
+        merkleRoot = newRoot;
+        round = newRound;
+        emit RootUpdated(newRoot, newRound);
+    }
+
+    function claim(address account, uint256 cumulativeAmount, bytes32[] calldata merkleProof) external {
+        uint256 already = claimed[account];
+        require(cumulativeAmount > already, "NOTHING_TO_CLAIM");
+
+        bytes32 leaf = keccak256(abi.encodePacked(account, cumulativeAmount));
+        require(MerkleProof.verify(merkleProof, merkleRoot, leaf), "BAD_PROOF");
+
+        claimed[account] = cumulativeAmount;
+        uint256 amount = cumulativeAmount - already;
+        require(token.transfer(account, amount), "TRANSFER_FAILED");
+        emit Claimed(round, account, amount);
+    }
+
+    /// @notice owner can rescue leftover tokens
+    function rescue(address to, uint256 amount) external onlyOwner {
+        require(token.transfer(to, amount), "TRANSFER_FAILED");
+    }
+}
@@ -21,7 +21,7 @@ module.exports = {
     runOnCompile: true,
     clear: true,
     flat: true,
-    only: ["MRTNFToken", "MRToken", "HourlyMerkleDistributor", "SimpleStakingVault"],
+    only: ["MRTNFToken", "MRToken", "HourlyMerkleDistributor", "CumulativeMerkleDistributor", "SimpleStakingVault"],
     format: "json"
   }],
 };
\ No newline at end of file
@@ -1,30 +1,18 @@
 // scripts/rebuild-and-push-root.ts
-// Rebuilds the Merkle file from the last hour of NFT mints,
+// Rebuilds the Merkle file from the NFT mints of one round (hour bucket of block
+// timestamps; the current one by default, or ROUND=<n>),
 // writes ./frontend/public/claims/current.json,
 // and updates the HourlyMerkleDistributor root on-chain if it changed.
 
 import { ethers } from "hardhat";
 import fs from "node:fs";
-import { MerkleTree } from "merkletreejs";
-import keccak256 from "keccak256";
+import { buildPayload } from "../../../frontend/lib/merkle";
+import { roundOf, scanRoundMints, uniqueMinters } from "../../../frontend/lib/rounds";
 
 const NFT_ADDRESS = process.env.NFT_ADDRESS!;               
 const DISTRIBUTOR = process.env.DISTRIBUTOR_ADDRESS!;      
 const OUTPUT = "./frontend/public/claims/current.json";
 
-// ~Sepolia 12s blocks → ~300 blocks/hour. You can tweak this.
-const BLOCKS_PER_HOUR = Number(process.env.BLOCKS_PER_HOUR || 300);
-
-function toBuf(hex: string) {
-  return Buffer.from(hex.slice(2), "hex");
-}
-
-function leafHash(account: `0x${string}`, amount: bigint, round: bigint) {
-  return ethers.keccak256(
-    ethers.solidityPacked(["address", "uint256", "uint64"], [account, amount, round])
-  );
-}
-
 async function main() {
   if (!NFT_ADDRESS || !DISTRIBUTOR) {
     throw new Error("Set NFT_ADDRESS and DISTRIBUTOR_ADDRESS in your env");
@@ -59,65 +47,40 @@ async function main() {
   console.log("On-chain → round:", onchainRound.toString());
   console.log("On-chain → rewardAmount (wei):", rewardAmount.toString());
 
-  // Fetch ERC721 Transfer (mint) logs for the last hour
-  const TRANSFER_SIG = ethers.id("Transfer(address,address,uint256)");
-  const ZERO_32 = "0x" + "00".repeat(32);
-
-  const toBlock = await provider.getBlockNumber();
-  const fromBlock = Math.max(0, toBlock - BLOCKS_PER_HOUR);
-
-  console.log(`Scanning mints from block ${fromBlock} to ${toBlock} ...`);
-
-  const logs = await provider.getLogs({
-    address: NFT_ADDRESS,
-    fromBlock,
-    toBlock,
-    topics: [TRANSFER_SIG, ZERO_32], // indexed "from" == zero → mint
-  });
-
-  // Collect unique "to" addresses
-  const addrs = new Set<string>();
-  for (const log of logs) {
-    // topics[2] is indexed "to" (32-byte)
-    const to = ethers.getAddress(("0x" + log.topics[2].slice(26)) as `0x${string}`);
-    addrs.add(to.toLowerCase());
-  }
-
-  // Round = current hour bucket
-  const round = BigInt(Math.floor(Date.now() / 1000 / 3600));
-  console.log("Round:", round.toString(), "| minters last hour:", addrs.size);
-
-  // Build Merkle tree (sorted pairs), amount = rewardAmount from contract
-  const addresses = Array.from(addrs).sort();
-  const leaves = addresses.map((a) => toBuf(leafHash(a as `0x${string}`, rewardAmount, round)));
+  // Round = hour bucket of the latest block's timestamp, unless pinned with ROUND
+  const latest = await provider.getBlock("latest");
+  if (!latest) throw new Error("Could not read latest block");
+  const round = BigInt(process.env.ROUND ?? roundOf(latest.timestamp));
 
-  if (leaves.length === 0) {
-    const emptyRoot = ("0x" + "00".repeat(64)) as `0x${string}`;
-    const payload = { round: Number(round), root: emptyRoot, claims: [] };
-    fs.mkdirSync("./frontend/public/claims", { recursive: true });
-    fs.writeFileSync(OUTPUT, JSON.stringify(payload, null, 2));
-    console.log("No minters in the last hour. Wrote empty current.json and SKIPPED setRoot.");
-    return; // ← very important
-  }
+  // Fetch ERC721 Transfer (mint) logs from the blocks inside that round
+  const { range, mints } = await scanRoundMints(provider, NFT_ADDRESS, Number(round));
+  console.log(`Scanning mints from block ${range.fromBlock} to ${range.toBlock} ...`);
+  if (!range.final) console.log("Round is still open; later runs may add minters.");
 
-  const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
-  const root = ("0x" + tree.getRoot().toString("hex")) as `0x${string}`;
+  const minters = uniqueMinters(mints);
+  console.log("Round:", round.toString(), "| minters this round:", minters.length);
 
-  // Build claims with proofs
-  const claims = addresses.map((account, i) => ({
-    account,
-    amount: rewardAmount.toString(),
-    proof: tree.getHexProof(leaves[i]) as `0x${string}`[],
-  }));
+  // Build Merkle tree with the shared core, amount = rewardAmount from contract
+  const entitlements = new Map<string, bigint>(minters.map((a) => [a, rewardAmount]));
+  const payload = buildPayload(entitlements, "round", round);
+  const root = payload.root;
 
   // Write JSON for the frontend
   fs.mkdirSync("./frontend/public/claims", { recursive: true });
-  const payload = { round: Number(round), root, claims };
   fs.writeFileSync(OUTPUT, JSON.stringify(payload, null, 2));
   console.log("Wrote:", OUTPUT);
+
+  if (payload.claims.length === 0) {
+    console.log("No minters in this round. Wrote empty current.json and SKIPPED setRoot.");
+    return; // ← very important
+  }
   console.log("File root:", root);
 
   // If root or round changed, push on-chain
+  if (round < onchainRound) {
+    console.log("Round is older than the on-chain round; not pushing (setRoot would revert ROUND_BACKWARDS).");
+    return;
+  }
   const needUpdate = root.toLowerCase() !== onchainRoot.toLowerCase() || round > onchainRound;
   if (!needUpdate) {
     console.log("No update needed (root/round unchanged).");
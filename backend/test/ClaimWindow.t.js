@@ -0,0 +1,35 @@
+const { expect } = require("chai");
+const { claimWindow, formatCountdown, EXPIRING_SECONDS } = require("../../frontend/lib/claimWindow.ts");
+
+const ROUND = 490000;
+const START = ROUND * 3600;
+
+describe("claim window", function () {
+  it("is claimable with the time left in the hour while file and chain agree", () => {
+    const w = claimWindow(ROUND, BigInt(ROUND), "round", START + 600);
+    expect(w).to.include({ status: "claimable", endsAt: START + 3600, secondsLeft: 3000, overdue: false });
+  });
+
+  it("turns expiring near the end of the hour and stays so until round() moves on", () => {
+    expect(claimWindow(ROUND, ROUND, "round", START + 3600 - EXPIRING_SECONDS).status).to.equal("expiring");
+    const late = claimWindow(ROUND, ROUND, "round", START + 3600 + 30);
+    expect(late).to.include({ status: "expiring", secondsLeft: 0, overdue: true, clockRound: ROUND + 1 });
+  });
+
+  it("tells a file ahead of the chain from a file behind it", () => {
+    expect(claimWindow(ROUND + 1, ROUND, "round", START + 3605).status).to.equal("pending");
+    expect(claimWindow(ROUND, ROUND + 1, "round", START + 3605).status).to.equal("expired");
+  });
+
+  it("never expires in cumulative mode", () => {
+    const w = claimWindow(ROUND, ROUND, "cumulative", START + 3599);
+    expect(w.status).to.equal("claimable");
+    expect(w.endsAt).to.equal(undefined);
+  });
+
+  it("formats countdowns", () => {
+    expect(formatCountdown(65)).to.equal("1:05");
+    expect(formatCountdown(3725)).to.equal("1:02:05");
+    expect(formatCountdown(-3)).to.equal("0:00");
+  });
+});
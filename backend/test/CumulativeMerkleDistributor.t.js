@@ -0,0 +1,103 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+const { MerkleTree } = require("merkletreejs");
+const keccak256 = require("keccak256");
+
+function leaf(account, cumulativeAmount) {
+  const hex = ethers.solidityPackedKeccak256(["address", "uint256"], [account, cumulativeAmount]);
+  return Buffer.from(hex.slice(2), "hex");
+}
+
+function buildTree(entries) {
+  const leaves = entries.map(([account, amount]) => leaf(account, amount));
+  const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
+  return {
+    root: "0x" + tree.getRoot().toString("hex"),
+    proof: (i) => tree.getHexProof(leaves[i]),
+  };
+}
+
+async function deployFixture() {
+  const [owner, alice, bob, relayer] = await ethers.getSigners();
+  const rewardAmount = ethers.parseUnits("5", 18);
+
+  const token = await ethers.deployContract("MRToken", [owner.address]);
+  const dist = await ethers.deployContract("CumulativeMerkleDistributor", [
+    owner.address,
+    await token.getAddress(),
+    rewardAmount,
+  ]);
+  await token.transfer(await dist.getAddress(), ethers.parseUnits("100", 18));
+
+  return { token, dist, owner, alice, bob, relayer, rewardAmount };
+}
+
+describe("CumulativeMerkleDistributor", function () {
+  it("pays the full cumulative amount on first claim", async () => {
+    const { token, dist, alice, bob, rewardAmount } = await loadFixture(deployFixture);
+    const tree = buildTree([[alice.address, rewardAmount], [bob.address, rewardAmount * 2n]]);
+    await dist.setRoot(tree.root, 1);
+
+    await expect(dist.connect(bob).claim(bob.address, rewardAmount * 2n, tree.proof(1)))
+      .to.emit(dist, "Claimed")
+      .withArgs(1, bob.address, rewardAmount * 2n);
+    expect(await token.balanceOf(bob.address)).to.equals(rewardAmount * 2n);
+    expect(await dist.claimed(bob.address)).to.equals(rewardAmount * 2n);
+  });
+
+  it("pays only the difference after the total grows", async () => {
+    const { token, dist, alice, bob, rewardAmount } = await loadFixture(deployFixture);
+    const first = buildTree([[alice.address, rewardAmount], [bob.address, rewardAmount]]);
+    await dist.setRoot(first.root, 1);
+    await dist.claim(alice.address, rewardAmount, first.proof(0));
+
+    // alice missed round 2's window entirely, then earned again in round 3
+    const later = buildTree([[alice.address, rewardAmount * 3n], [bob.address, rewardAmount]]);
+    await dist.setRoot(later.root, 3);
+
+    await expect(dist.claim(alice.address, rewardAmount * 3n, later.proof(0)))
+      .to.emit(dist, "Claimed")
+      .withArgs(3, alice.address, rewardAmount * 2n);
+    expect(await token.balanceOf(alice.address)).to.equals(rewardAmount * 3n);
+  });
+
+  it("reverts when nothing new is claimable", async () => {
+    const { dist, alice, bob, rewardAmount } = await loadFixture(deployFixture);
+    const tree = buildTree([[alice.address, rewardAmount], [bob.address, rewardAmount]]);
+    await dist.setRoot(tree.root, 1);
+    await dist.claim(alice.address, rewardAmount, tree.proof(0));
+
+    await expect(dist.claim(alice.address, rewardAmount, tree.proof(0)))
+      .to.be.revertedWith("NOTHING_TO_CLAIM");
+  });
+
+  it("reverts on a proof for a different amount", async () => {
+    const { dist, alice, bob, rewardAmount } = await loadFixture(deployFixture);
+    const tree = buildTree([[alice.address, rewardAmount], [bob.address, rewardAmount]]);
+    await dist.setRoot(tree.root, 1);
+
+    await expect(dist.claim(alice.address, rewardAmount * 2n, tree.proof(0)))
+      .to.be.revertedWith("BAD_PROOF");
+  });
+
+  it("lets anyone claim on behalf of an account", async () => {
+    const { token, dist, alice, bob, relayer, rewardAmount } = await loadFixture(deployFixture);
+    const tree = buildTree([[alice.address, rewardAmount], [bob.address, rewardAmount]]);
+    await dist.setRoot(tree.root, 1);
+
+    await dist.connect(relayer).claim(alice.address, rewardAmount, tree.proof(0));
+    expect(await token.balanceOf(alice.address)).to.equals(rewardAmount);
+    expect(await token.balanceOf(relayer.address)).to.equals(0n);
+  });
+
+  it("only owner can setRoot and rounds cannot go backwards", async () => {
+    const { dist, alice } = await loadFixture(deployFixture);
+    const root = ethers.keccak256(ethers.toUtf8Bytes("root"));
+    await expect(dist.connect(alice).setRoot(root, 1))
+      .to.be.revertedWithCustomError(dist, "OwnableUnauthorizedAccount");
+
+    await dist.setRoot(root, 5);
+    await expect(dist.setRoot(root, 4)).to.be.revertedWith("ROUND_BACKWARDS");
+  });
+});
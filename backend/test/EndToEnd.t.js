@@ -0,0 +1,761 @@
+const { expect } = require("chai");
+const hre = require("hardhat");
+const { ethers } = hre;
+const { loadFixture, time } = require("@nomicfoundation/hardhat-network-helpers");
+const { JsonRpcServer } = require("hardhat/internal/hardhat-network/jsonrpc/server");
+const fs = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+const Module = require("node:module");
+
+// End to end: contracts on the in-process Hardhat network, the Next builder
+// (rebuildAndPush) talking to it over JSON-RPC, and a filesystem claims store.
+
+// frontend/lib imports each other through the "@/…" alias from frontend/tsconfig.json
+const FRONTEND = path.resolve(__dirname, "../../frontend");
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request.startsWith("@/")) request = path.join(FRONTEND, request.slice(2));
+  return resolveFilename.call(this, request, ...rest);
+};
+
+// Read by the builder at call time; the rebuild lease stays in memory
+const ENV = {
+  INDEXER_CONFIRMATIONS: "0",
+  REBUILD_LOCK: "memory",
+  SETROOT_WAIT_MS: "10000",
+  // Hardhat account #0, which deploys and owns the distributor
+  PUBLISHER_PRIVATE_KEY: "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+};
+const savedEnv = {};
+for (const [k, v] of Object.entries(ENV)) {
+  savedEnv[k] = process.env[k];
+  process.env[k] = v;
+}
+
+const { rebuildAndPush } = require("../../frontend/lib/rebuild.ts");
+const { readJson, setClaimsStore, writeJson } = require("../../frontend/lib/store.ts");
+const { fsStore } = require("../../frontend/lib/stores/fs.ts");
+const { splitStore } = require("../../frontend/lib/stores/base.ts");
+const { EMPTY_ROOT } = require("../../frontend/lib/merkle.ts");
+const {
+  checkPayload, relayDomain, CLAIM_REQUEST_TYPES, claimRequestMessage,
+  ADMIN_SESSION_PURPOSE, ADMIN_SESSION_TYPES, adminDomain, adminSessionMessage,
+} = require("../../frontend/lib/signing.ts");
+const { roundOf } = require("../../frontend/lib/rounds.ts");
+const { syncDistributorEvents } = require("../../frontend/lib/distributorEvents.ts");
+const { accountHistory } = require("../../frontend/lib/history.ts");
+const { relayClaim, relaySpendKey } = require("../../frontend/lib/relayer.ts");
+const { distributeClaims, distributeReportKey } = require("../../frontend/lib/distribute.ts");
+const { archiveRound } = require("../../frontend/lib/archive.ts");
+const { checkSolvency } = require("../../frontend/lib/solvency.ts");
+const { pendingSetRoot, PENDING_TX_KEY } = require("../../frontend/lib/publisher.ts");
+const { GET: getProof } = require("../../frontend/app/api/claims/proof/route.ts");
+const { POST: postAdmin } = require("../../frontend/app/api/admin/route.ts");
+const { signRequest, verifySignedRequest } = require("../../frontend/lib/auth.ts");
+const { NextRequest } = Module.createRequire(path.join(FRONTEND, "package.json"))("next/server");
+
+// Hardhat account #5, which no test signs with, pays for relayed claims
+const RELAYER_KEY = "0x8b3a350cf5c34c9194ca85829a2df0ec3153be0318b5e2d3348e872092edffba";
+
+// Hardhat account #6 sends claims on behalf of others
+const DISTRIBUTE_KEY = "0x92db14e403b83dfe3df233f83dfa3a0d7096f21ca9b0d6d6b8d88b2b4ec1564e";
+
+const REWARD = ethers.parseUnits("5", 18);
+const PRICE = ethers.parseEther("0.02");
+
+let server;
+let rpcUrl;
+
+async function deployFixture() {
+  const [owner, alice, bob, carol, dave] = await ethers.getSigners();
+
+  const token = await ethers.deployContract("MRToken", [owner.address]);
+  const nft = await ethers.deployContract("MRTNFToken", [owner.address, "ipfs://QmTestMetadataCID/", 100, PRICE, owner.address, 500]);
+  const dist = await ethers.deployContract("MerkleDistributor", [owner.address, await token.getAddress(), REWARD]);
+  const vault = await ethers.deployContract("SimpleStakingVault", [owner.address, await token.getAddress(), 1n]);
+  await token.transfer(await dist.getAddress(), REWARD * 20n);
+
+  // Start at the top of a fresh round so every mint below lands in the same one
+  await time.increaseTo((roundOf(await time.latest()) + 1) * 3600 + 1);
+
+  return { token, nft, dist, vault, owner, alice, bob, carol, dave };
+}
+
+// Same chain, plus a CumulativeMerkleDistributor for CLAIMS_MODE=cumulative runs
+async function deployCumulativeFixture() {
+  const ctx = await deployFixture();
+  const dist = await ethers.deployContract("CumulativeMerkleDistributor", [ctx.owner.address, await ctx.token.getAddress(), REWARD]);
+  await ctx.token.transfer(await dist.getAddress(), REWARD * 20n);
+  return { ...ctx, dist };
+}
+
+async function mintFrom(nft, signer, quantity = 1) {
+  await nft.connect(signer).mint(quantity, { value: PRICE * BigInt(quantity) });
+}
+
+async function build(ctx, extra = {}) {
+  return rebuildAndPush({
+    rpcUrl,
+    nft: await ctx.nft.getAddress(),
+    distributor: await ctx.dist.getAddress(),
+    blocksPerHour: 1000,
+    ...extra,
+  });
+}
+
+async function published() {
+  return readJson("claims/current.json");
+}
+
+function claimOf(payload, account) {
+  return payload.claims.find((c) => c.account === account);
+}
+
+async function signClaimRequest(ctx, signer, payload, account = signer.address) {
+  const c = claimOf(payload, account);
+  const request = {
+    account,
+    round: payload.round,
+    amount: c ? c.amount : REWARD.toString(),
+    root: payload.root,
+    deadline: Math.floor(Date.now() / 1000) + 600,
+  };
+  const { chainId } = await ethers.provider.getNetwork();
+  const domain = relayDomain(Number(chainId), await ctx.dist.getAddress());
+  const signature = await signer.signTypedData(domain, CLAIM_REQUEST_TYPES, claimRequestMessage(request));
+  return { request, signature };
+}
+
+async function relay(ctx, { request, signature }, extra = {}) {
+  return relayClaim(request, signature, {
+    rpcUrl,
+    distributor: await ctx.dist.getAddress(),
+    relayerKey: RELAYER_KEY,
+    waitMs: 10_000,
+    ...extra,
+  });
+}
+
+describe("end to end: mint → build → claim", function () {
+  let storeDir;
+
+  before(async () => {
+    server = new JsonRpcServer({ hostname: "127.0.0.1", port: 0, provider: hre.network.provider });
+    const { port } = await server.listen();
+    rpcUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(async () => {
+    await server.close();
+    for (const [k, v] of Object.entries(savedEnv)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+    Module._resolveFilename = resolveFilename;
+  });
+
+  // Fixtures rewind the chain, so the indexer checkpoint and payloads start over too
+  beforeEach(() => {
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "mrt-e2e-"));
+    // the same layout as CLAIMS_STORE=fs: published files under public/, builder state elsewhere
+    setClaimsStore(splitStore(fsStore(path.join(storeDir, "public")), fsStore(path.join(storeDir, "state"))));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it("publishes a root the distributor accepts, and rewards can be claimed and staked", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { token, dist, vault, alice, bob, carol } = ctx;
+    await mintFrom(ctx.nft, alice);
+    await mintFrom(ctx.nft, bob, 2);
+    await mintFrom(ctx.nft, carol);
+
+    const result = await build(ctx);
+    expect(result.ok, JSON.stringify(result.warn)).to.equal(true);
+    expect(result.reason).to.equal("pushed");
+    expect(result.updated).to.equal(true);
+    expect(result.count).to.equal(3);
+    expect(result.txHash).to.be.a("string");
+
+    const payload = await published();
+    expect(payload.root).to.equal(result.fileRoot);
+    expect(await dist.merkleRoot()).to.equal(payload.root);
+    expect(await dist.round()).to.equal(BigInt(payload.round));
+    expect(checkPayload(payload, {
+      distributor: await dist.getAddress(),
+      signer: ctx.owner.address,
+      onchainRoot: await dist.merkleRoot(),
+      onchainRound: await dist.round(),
+    }).status).to.equal("ok");
+    expect(await readJson(`claims/rounds/${payload.round}.json`)).to.deep.equal(payload);
+
+    for (const signer of [alice, bob, carol]) {
+      const c = claimOf(payload, signer.address);
+      await expect(dist.connect(signer).claim(payload.round, c.account, c.amount, c.proof))
+        .to.emit(dist, "Claimed")
+        .withArgs(payload.round, signer.address, REWARD);
+      expect(await token.balanceOf(signer.address)).to.equal(REWARD);
+    }
+
+    await token.connect(alice).approve(await vault.getAddress(), REWARD);
+    await vault.connect(alice).stake(REWARD);
+    expect(await token.balanceOf(await vault.getAddress())).to.equal(REWARD);
+  });
+
+  it("reports an unchanged payload and leaves the root alone on a second run", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    const root = await ctx.dist.merkleRoot();
+
+    const again = await build(ctx);
+    expect(again.ok).to.equal(true);
+    expect(again.reason).to.equal("unchanged");
+    expect(again.updated).to.equal(false);
+    expect(await ctx.dist.merkleRoot()).to.equal(root);
+  });
+
+  it("sends setRoot again for an unchanged payload whose root never reached the chain", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+
+    // Hardhat account #7 does not own the distributor, so its setRoot reverts
+    process.env.PUBLISHER_PRIVATE_KEY = "0x4bbbf85ce3377467afe5d46f804f221813b2bb87f24d81f60f1fcdbf7cbf4356";
+    let first;
+    try {
+      first = await build(ctx);
+    } finally {
+      process.env.PUBLISHER_PRIVATE_KEY = ENV.PUBLISHER_PRIVATE_KEY;
+    }
+    expect(first.reason).to.equal("pushed");
+    expect(first.warn.some((w) => w.startsWith("On-chain setRoot failed"))).to.equal(true);
+    expect(await ctx.dist.merkleRoot()).to.not.equal(first.fileRoot);
+
+    const plan = await build(ctx, { dryRun: true });
+    expect(plan.plan.wouldUpload).to.equal(false);
+    expect(plan.plan.wouldSetRoot).to.equal(true);
+
+    const again = await build(ctx);
+    expect(again.ok, JSON.stringify(again.warn)).to.equal(true);
+    expect(again.reason).to.equal("unchanged");
+    expect(again.updated).to.equal(true);
+    expect(again.txHash).to.be.a("string");
+    expect(await ctx.dist.merkleRoot()).to.equal(first.fileRoot);
+    expect(await ctx.dist.round()).to.equal(BigInt(first.round));
+  });
+
+  it("leaves current.json and the root alone when the indexed round is behind the chain", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    const before = await published();
+
+    // Another publisher is already a round ahead of the confirmed head
+    const ahead = ethers.id("newer root");
+    await ctx.dist.setRoot(ahead, before.round + 1);
+    await mintFrom(ctx.nft, ctx.bob);
+
+    const res = await build(ctx);
+    expect(res.ok).to.equal(true);
+    expect(res.reason).to.equal("behind");
+    expect(res.updated).to.equal(false);
+    expect(res.warn.some((w) => w.includes("older than the on-chain round"))).to.equal(true);
+    expect(await published()).to.deep.equal(before);
+    expect(await ctx.dist.merkleRoot()).to.equal(ahead);
+  });
+
+  it("credits webhook mints only once they are confirmed", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+
+    const tx = await ctx.nft.connect(ctx.bob).mint(1, { value: PRICE });
+    const receipt = await tx.wait();
+    const log = receipt.logs.find((l) => l.topics[0] === ethers.id("Transfer(address,address,uint256)"));
+    const mint = {
+      account: ctx.bob.address,
+      tokenId: BigInt(log.topics[3]).toString(),
+      blockNumber: receipt.blockNumber,
+      txHash: receipt.hash,
+      logIndex: log.index,
+    };
+    const webhook = { mints: [mint], removed: [] };
+
+    process.env.INDEXER_CONFIRMATIONS = "2";
+    try {
+      const early = await build(ctx, { webhook });
+      expect(early.warn.some((w) => w.includes("not confirmed yet"))).to.equal(true);
+      expect(claimOf(await published(), ctx.bob.address)).to.equal(undefined);
+
+      await ethers.provider.send("hardhat_mine", ["0x2"]);
+      const later = await build(ctx, { webhook });
+      expect(later.ok, JSON.stringify(later.warn)).to.equal(true);
+      expect(claimOf(await published(), ctx.bob.address)).to.not.equal(undefined);
+    } finally {
+      process.env.INDEXER_CONFIRMATIONS = ENV.INDEXER_CONFIRMATIONS;
+    }
+  });
+
+  it("throws rebuild errors instead of reporting them as a lock failure, and frees the lease", async () => {
+    const ctx = await loadFixture(deployFixture);
+    // MRToken has code but no merkleRoot(): the call reverts inside the rebuild
+    let error;
+    try {
+      await build(ctx, { distributor: await ctx.token.getAddress() });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.an("error");
+    expect(error.message).to.not.include("rebuild lock");
+
+    const next = await build(ctx);
+    expect(next.ok, JSON.stringify(next.warn)).to.equal(true);
+    expect(next.reason).to.not.equal("in-progress");
+  });
+
+  it("keeps a pending setRoot record until the tx is mined or its nonce is used", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const from = ctx.owner.address;
+    const nonce = await ethers.provider.getTransactionCount(from, "latest");
+    const record = (over) => writeJson(PENDING_TX_KEY, JSON.stringify({
+      hash: ethers.id("not broadcast here"), from, nonce, root: ethers.id("root"), round: 1,
+      sentAt: new Date().toISOString(), ...over,
+    }));
+
+    // Unknown to this node but recent, nonce still free: may still land
+    await record();
+    expect(await pendingSetRoot(ethers.provider)).to.not.equal(undefined);
+    expect(await readJson(PENDING_TX_KEY)).to.not.equal(undefined);
+
+    // Unknown for longer than the grace period: dropped
+    await record({ sentAt: new Date(Date.now() - 3600_000).toISOString() });
+    expect(await pendingSetRoot(ethers.provider)).to.equal(undefined);
+    expect(await readJson(PENDING_TX_KEY)).to.equal(undefined);
+
+    // Another tx took the nonce: replaced
+    await record();
+    await mintFrom(ctx.nft, ctx.owner);
+    expect(await pendingSetRoot(ethers.provider)).to.equal(undefined);
+    expect(await readJson(PENDING_TX_KEY)).to.equal(undefined);
+  });
+
+  it("publishes an empty round that nobody can claim from", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const result = await build(ctx);
+    expect(result.ok).to.equal(true);
+    expect(result.reason).to.equal("empty");
+    expect(result.count).to.equal(0);
+    expect(result.fileRoot).to.equal(EMPTY_ROOT);
+
+    const round = await ctx.dist.round();
+    await expect(ctx.dist.connect(ctx.alice).claim(round, ctx.alice.address, REWARD, []))
+      .to.be.revertedWith("BAD_PROOF");
+  });
+
+  it("rejects a second claim of the same round", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    const c = claimOf(await published(), ctx.alice.address);
+    const round = await ctx.dist.round();
+
+    await ctx.dist.connect(ctx.alice).claim(round, c.account, c.amount, c.proof);
+    await expect(ctx.dist.connect(ctx.alice).claim(round, c.account, c.amount, c.proof))
+      .to.be.revertedWith("ALREADY_CLAIMED");
+  });
+
+  it("rejects a claim for a round other than the live one", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    const c = claimOf(await published(), ctx.alice.address);
+    const round = await ctx.dist.round();
+
+    await expect(ctx.dist.connect(ctx.alice).claim(round - 1n, c.account, c.amount, c.proof))
+      .to.be.revertedWith("WRONG_ROUND");
+    await expect(ctx.dist.connect(ctx.alice).claim(round + 1n, c.account, c.amount, c.proof))
+      .to.be.revertedWith("WRONG_ROUND");
+  });
+
+  it("turns the previous round's proofs stale once the next root is published", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { dist, alice, bob } = ctx;
+    await mintFrom(ctx.nft, alice);
+    await build(ctx);
+    const old = await published();
+
+    await time.increase(3600);
+    await mintFrom(ctx.nft, bob);
+    const next = await build(ctx);
+    expect(next.reason).to.equal("pushed");
+    expect(next.round).to.equal(old.round + 1);
+    expect(claimOf(await published(), alice.address)).to.equal(undefined);
+
+    const c = claimOf(old, alice.address);
+    await expect(dist.connect(alice).claim(old.round, c.account, c.amount, c.proof))
+      .to.be.revertedWith("WRONG_ROUND");
+    await expect(dist.connect(alice).claim(next.round, c.account, c.amount, c.proof))
+      .to.be.revertedWith("BAD_PROOF");
+    expect(checkPayload(old, {
+      distributor: await dist.getAddress(),
+      signer: ctx.owner.address,
+      onchainRoot: await dist.merkleRoot(),
+      onchainRound: await dist.round(),
+    }).status).to.equal("stale");
+  });
+
+  it("tracks claimed, expired and claimable rounds for a wallet from distributor events", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { dist, alice } = ctx;
+
+    // round A: claimed
+    await mintFrom(ctx.nft, alice);
+    await build(ctx);
+    const a = await published();
+    const c = claimOf(a, alice.address);
+    const tx = await dist.connect(alice).claim(a.round, c.account, c.amount, c.proof);
+
+    // round B: never claimed, so it expires when round C is published
+    await time.increase(3600);
+    await mintFrom(ctx.nft, alice);
+    await build(ctx);
+    const b = await published();
+
+    // round C: live and unclaimed
+    await time.increase(3600);
+    await mintFrom(ctx.nft, alice);
+    await build(ctx);
+    const live = await published();
+
+    const { state } = await syncDistributorEvents(ethers.provider, await dist.getAddress(), undefined, { confirmations: 0 });
+    expect(state.roots.map((e) => e.round)).to.deep.equal([a.round, b.round, live.round]);
+
+    const history = await accountHistory(alice.address, state, Number(await dist.round()));
+    expect(history.received).to.equal(REWARD.toString());
+    expect(history.rounds.map((r) => [r.round, r.status])).to.deep.equal([
+      [live.round, "claimable"],
+      [b.round, "expired"],
+      [a.round, "claimed"],
+    ]);
+    expect(history.rounds[2].claim.txHash).to.equal(tx.hash);
+  });
+
+  it("relays a signed claim so the account receives its reward without paying gas", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { token, dist, alice } = ctx;
+    await mintFrom(ctx.nft, alice);
+    await build(ctx);
+    const payload = await published();
+
+    const signed = await signClaimRequest(ctx, alice, payload);
+    const ethBefore = await ethers.provider.getBalance(alice.address);
+    const res = await relay(ctx, signed);
+    expect(res.ok, res.error).to.equal(true);
+    expect(res.status).to.equal("mined");
+    expect(await token.balanceOf(alice.address)).to.equal(REWARD);
+    expect(await dist.isClaimed(payload.round, alice.address)).to.equal(true);
+    expect(await ethers.provider.getBalance(alice.address)).to.equal(ethBefore);
+
+    const spent = await readJson(relaySpendKey(payload.round));
+    expect(spent.claims).to.equal(1);
+    expect(BigInt(spent.wei) > 0n).to.equal(true);
+
+    const again = await relay(ctx, signed);
+    expect(again).to.include({ ok: false, status: 409 });
+  });
+
+  it("refuses relayed claims signed by someone else, for a stale root, or past the round budget", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { alice, bob } = ctx;
+    await mintFrom(ctx.nft, alice);
+    await mintFrom(ctx.nft, bob);
+    await build(ctx);
+    const old = await published();
+
+    const forged = await signClaimRequest(ctx, bob, old, alice.address);
+    expect(await relay(ctx, forged)).to.include({ ok: false, status: 401 });
+
+    const budget = { maxClaims: 1, maxWei: ethers.parseEther("1") };
+    expect((await relay(ctx, await signClaimRequest(ctx, alice, old), { budget })).ok).to.equal(true);
+    expect(await relay(ctx, await signClaimRequest(ctx, bob, old), { budget })).to.include({ ok: false, status: 503 });
+
+    await time.increase(3600);
+    await mintFrom(ctx.nft, bob);
+    await build(ctx);
+    const stale = await relay(ctx, await signClaimRequest(ctx, bob, old));
+    expect(stale).to.include({ ok: false, status: 409 });
+    expect(await ctx.token.balanceOf(bob.address)).to.equal(0n);
+  });
+
+  it("distributes unclaimed rewards one tx at a time and resumes from its report", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { token, dist, alice, bob, carol } = ctx;
+    for (const signer of [alice, bob, carol]) await mintFrom(ctx.nft, signer);
+    await build(ctx);
+    const payload = await published();
+    const c = claimOf(payload, alice.address);
+    await dist.connect(alice).claim(payload.round, c.account, c.amount, c.proof);
+
+    const opts = { rpcUrl, distributor: await dist.getAddress(), senderKey: DISTRIBUTE_KEY, waitMs: 10_000 };
+    const plan = await distributeClaims(payload, { ...opts, dryRun: true });
+    expect(plan.toSend).to.have.members([bob.address, carol.address]);
+    expect(await readJson(distributeReportKey(payload.round))).to.equal(undefined);
+
+    const first = await distributeClaims(payload, { ...opts, limit: 1 });
+    expect(first.ok).to.equal(true);
+    expect(first.counts).to.deep.equal({ sent: 0, mined: 1, skipped: 1, failed: 0 });
+
+    const second = await distributeClaims(payload, opts);
+    expect(second.counts).to.deep.equal({ sent: 0, mined: 2, skipped: 1, failed: 0 });
+    for (const signer of [alice, bob, carol]) expect(await token.balanceOf(signer.address)).to.equal(REWARD);
+
+    const report = await readJson(distributeReportKey(payload.round));
+    expect(report.root).to.equal(payload.root);
+    expect(report.entries.find((e) => e.account === alice.address).status).to.equal("skipped");
+    const nonces = report.entries.filter((e) => e.status === "mined").map((e) => e.nonce);
+    expect(nonces[1]).to.equal(nonces[0] + 1);
+  });
+
+  it("distributes a batch through Multicall3 and reports the claims that reverted inside it", async () => {
+    const ctx = await loadFixture(deployFixture);
+    const { token, dist, alice, bob, carol, dave } = ctx;
+    for (const signer of [alice, bob, carol, dave]) await mintFrom(ctx.nft, signer);
+    await build(ctx);
+    const payload = await published();
+    const multicall = await ethers.deployContract("Multicall3");
+
+    // A forged amount that only fails on-chain, next to three good claims
+    const forged = { ...payload, claims: payload.claims.map((c) => (c.account === dave.address ? { ...c, amount: "1" } : c)) };
+    const res = await distributeClaims(forged, {
+      rpcUrl,
+      distributor: await dist.getAddress(),
+      senderKey: DISTRIBUTE_KEY,
+      method: "multicall",
+      multicall: await multicall.getAddress(),
+      batchSize: 10,
+      waitMs: 10_000,
+    });
+    expect(res.ok).to.equal(false);
+    expect(res.counts).to.deep.equal({ sent: 0, mined: 3, skipped: 0, failed: 1 });
+    const failed = res.report.entries.find((e) => e.status === "failed");
+    expect(failed.account).to.equal(dave.address);
+    expect(failed.error).to.equal("AMOUNT");
+    const hashes = new Set(res.report.entries.filter((e) => e.status === "mined").map((e) => e.txHash));
+    expect(hashes.size).to.equal(1);
+    for (const signer of [alice, bob, carol]) expect(await token.balanceOf(signer.address)).to.equal(REWARD);
+  });
+
+  it("reads claim status for the solvency check through Multicall3, or a few calls at a time without it", async () => {
+    const ctx = await loadFixture(deployFixture);
+    for (const signer of [ctx.alice, ctx.bob, ctx.carol]) await mintFrom(ctx.nft, signer);
+    await build(ctx);
+    const payload = await published();
+    const c = claimOf(payload, ctx.alice.address);
+    await ctx.dist.connect(ctx.alice).claim(payload.round, c.account, c.amount, c.proof);
+
+    const multicall = await ethers.deployContract("Multicall3");
+    const distributor = await ctx.dist.getAddress();
+    const batched = await checkSolvency(ethers.provider, distributor, payload, { multicall: await multicall.getAddress(), batch: 2 });
+    const direct = await checkSolvency(ethers.provider, distributor, payload, { multicall: ethers.ZeroAddress, concurrency: 1 });
+    expect(batched).to.deep.equal(direct);
+    expect(batched.required).to.equal((REWARD * 2n).toString());
+    expect(batched.unclaimedAccounts).to.equal(2);
+  });
+
+  it("credits a mint indexed after its round closed in cumulative mode", async () => {
+    const ctx = await loadFixture(deployCumulativeFixture);
+    const { dist, alice, carol, dave } = ctx;
+    await mintFrom(ctx.nft, alice);
+    const first = await build(ctx, { mode: "cumulative" });
+    expect(first.reason).to.equal("pushed");
+
+    // carol mints in the same round, but no build runs before it closes
+    await mintFrom(ctx.nft, carol);
+    await time.increase(3600);
+    await mintFrom(ctx.nft, dave);
+
+    const next = await build(ctx, { mode: "cumulative" });
+    expect(next.ok, JSON.stringify(next.warn)).to.equal(true);
+    expect(next.round).to.equal(first.round + 1);
+    expect(next.backfilled).to.deep.equal([first.round]);
+    const ledger = await readJson("claims/ledger.json");
+    expect(Object.keys(ledger.rounds[first.round])).to.have.members([alice.address, carol.address]);
+
+    const payload = await published();
+    for (const signer of [alice, carol, dave]) {
+      const c = claimOf(payload, signer.address);
+      expect(c.amount).to.equal(REWARD.toString());
+      await dist.connect(signer).claim(c.account, c.amount, c.proof);
+      expect(await ctx.token.balanceOf(signer.address)).to.equal(REWARD);
+    }
+
+    const again = await build(ctx, { mode: "cumulative" });
+    expect(again.reason).to.equal("unchanged");
+    expect(again.backfilled).to.equal(undefined);
+  });
+
+  it("checks a late-credited round's accounts for bytecode at that round's end", async () => {
+    const ctx = await loadFixture(deployCumulativeFixture);
+    const { alice, carol, dave } = ctx;
+    process.env.EXCLUDE_CONTRACTS = "1";
+    try {
+      await mintFrom(ctx.nft, alice);
+      const first = await build(ctx, { mode: "cumulative" });
+      await mintFrom(ctx.nft, carol);
+      await time.increase(3600);
+      // carol only has code from the next round on; in the round she minted she was an EOA
+      await ethers.provider.send("hardhat_setCode", [carol.address, "0x6080"]);
+      await mintFrom(ctx.nft, dave);
+
+      const next = await build(ctx, { mode: "cumulative" });
+      expect(next.backfilled).to.deep.equal([first.round]);
+      const ledger = await readJson("claims/ledger.json");
+      expect(Object.keys(ledger.rounds[first.round])).to.have.members([alice.address, carol.address]);
+    } finally {
+      delete process.env.EXCLUDE_CONTRACTS;
+    }
+  });
+
+  it("warns about mints indexed after their round closed in round mode", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    await mintFrom(ctx.nft, ctx.carol);
+    await time.increase(3600);
+
+    const next = await build(ctx);
+    expect(claimOf(await published(), ctx.carol.address)).to.equal(undefined);
+    expect(next.warn.some((w) => w.includes("indexed late"))).to.equal(true);
+  });
+
+  it("keeps the live proof URL revalidating while current.json lags the clock", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await build(ctx);
+    // The builder has not run yet this hour: current.json still holds the previous round
+    const behind = { ...(await published()), round: roundOf(Math.floor(Date.now() / 1000)) - 1 };
+    await writeJson("claims/current.json", JSON.stringify(behind));
+    await archiveRound(behind);
+
+    const url = `http://localhost/api/claims/proof?account=${ctx.alice.address}`;
+    const live = await getProof(new NextRequest(url));
+    expect(live.status).to.equal(200);
+    expect(live.headers.get("x-claims-round")).to.equal(String(behind.round));
+    expect(live.headers.get("cache-control")).to.equal("public, max-age=0, s-maxage=30, stale-while-revalidate=30");
+
+    const pinned = await getProof(new NextRequest(`${url}&round=${behind.round}`));
+    expect(pinned.status).to.equal(200);
+    expect(pinned.headers.get("cache-control")).to.equal("public, max-age=31536000, immutable");
+  });
+
+  it("rebuilds a past round from chain data to the root that was published", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await mintFrom(ctx.nft, ctx.carol);
+    await build(ctx);
+    const live = await published();
+
+    await time.increase(3600);
+    await ethers.provider.send("evm_mine", []);
+    const replay = await build(ctx, { round: live.round });
+    expect(replay.reason).to.equal("historical");
+    expect(replay.fileRoot).to.equal(live.root);
+  });
+
+  it("publishes only the proofs and round archives, and moves old state out of the public root", async () => {
+    const ctx = await loadFixture(deployCumulativeFixture);
+    const legacy = path.join(storeDir, "public", "claims", "ledger.json");
+    fs.mkdirSync(path.dirname(legacy), { recursive: true });
+    fs.writeFileSync(legacy, JSON.stringify({ version: 1, rounds: { 1: { [ctx.bob.address]: REWARD.toString() } } }));
+
+    await mintFrom(ctx.nft, ctx.alice);
+    expect((await build(ctx, { mode: "cumulative" })).reason).to.equal("pushed");
+    // the old ledger was picked up, not started over
+    expect(claimOf(await published(), ctx.bob.address).amount).to.equal(REWARD.toString());
+
+    const listed = (dir) => fs.readdirSync(dir, { recursive: true })
+      .filter((f) => fs.statSync(path.join(dir, f)).isFile())
+      .map((f) => f.split(path.sep).join("/"));
+    const exposed = listed(path.join(storeDir, "public"));
+    expect(exposed).to.include("claims/current.json");
+    expect(exposed.filter((f) => f !== "claims/current.json" && !f.startsWith("claims/rounds/"))).to.deep.equal([]);
+    expect(listed(path.join(storeDir, "state"))).to.include.members(["claims/indexer.json", "claims/ledger.json"]);
+  });
+
+  it("shows the operator dashboard only to the distributor owner", async () => {
+    const ctx = await loadFixture(deployFixture);
+    await mintFrom(ctx.nft, ctx.alice);
+    await mintFrom(ctx.nft, ctx.bob);
+    await build(ctx);
+    const payload = await published();
+    const c = claimOf(payload, ctx.alice.address);
+    await ctx.dist.connect(ctx.alice).claim(payload.round, c.account, c.amount, c.proof);
+
+    const env = {
+      NEXT_PUBLIC_RPC_URL: rpcUrl,
+      NEXT_PUBLIC_DISTRIBUTOR_ADDRESS: await ctx.dist.getAddress(),
+      NEXT_PUBLIC_STAKING_ADDRESS: await ctx.vault.getAddress(),
+      EVENTS_SYNC_SECONDS: "0",
+    };
+    const saved = Object.fromEntries(Object.keys(env).map((k) => [k, process.env[k]]));
+    Object.assign(process.env, env);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = adminDomain(Number(chainId), await ctx.dist.getAddress());
+    const now = Math.floor(Date.now() / 1000);
+    const ask = async (signer, session = { purpose: ADMIN_SESSION_PURPOSE, issuedAt: now, expiresAt: now + 600 }) => {
+      const signature = await signer.signTypedData(domain, ADMIN_SESSION_TYPES, adminSessionMessage(session));
+      const res = await postAdmin(new NextRequest("http://localhost/api/admin", {
+        method: "POST",
+        body: JSON.stringify({ session, signature }),
+      }));
+      return { status: res.status, body: await res.json() };
+    };
+
+    try {
+      expect((await ask(ctx.dave)).status).to.equal(403);
+      expect((await ask(ctx.owner, { purpose: ADMIN_SESSION_PURPOSE, issuedAt: now - 7200, expiresAt: now - 3600 })).status).to.equal(401);
+
+      const { status, body } = await ask(ctx.owner);
+      expect(status, JSON.stringify(body)).to.equal(200);
+      expect(body.inSync).to.equal(true);
+      expect(body.lastRebuild.result.reason).to.equal("pushed");
+      expect(body.balances.distributor).to.equal((REWARD * 19n).toString());
+      expect(body.balances.vault.balance).to.equal("0");
+      expect(body.rounds[0]).to.include({ round: payload.round, count: 2, claimed: 1, onchain: true });
+      expect(body.claims.claimed.map((x) => x.account)).to.deep.equal([ctx.alice.address]);
+      expect(body.claims.unclaimed.map((x) => x.account)).to.deep.equal([ctx.bob.address]);
+    } finally {
+      for (const [k, v] of Object.entries(saved)) {
+        if (v === undefined) delete process.env[k];
+        else process.env[k] = v;
+      }
+    }
+  });
+
+  it("rejects a signed rebuild call whose nonce was already used, from any instance", async () => {
+    const saved = process.env.REBUILD_TOKEN;
+    process.env.REBUILD_TOKEN = "test-token";
+    try {
+      const body = "{}";
+      const ts = Math.floor(Date.now() / 1000);
+      const call = () => verifySignedRequest(body, new NextRequest("http://localhost/api/rebuild", {
+        method: "POST",
+        headers: {
+          "x-rebuild-timestamp": String(ts),
+          "x-rebuild-nonce": "n-1",
+          "x-rebuild-signature": signRequest("test-token", body, ts, "n-1"),
+        },
+      }));
+      expect(await call()).to.deep.equal({ ok: true, caller: "signed" });
+      expect(fs.readdirSync(path.join(storeDir, "state", "claims", "rebuild-nonces"))).to.have.length(1);
+      expect(await call()).to.deep.equal({ ok: false, status: 409, error: "replayed nonce" });
+    } finally {
+      if (saved === undefined) delete process.env.REBUILD_TOKEN;
+      else process.env.REBUILD_TOKEN = saved;
+    }
+  });
+});
@@ -0,0 +1,68 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { applyExclusions, loadExclusionConfig } = require("../../frontend/lib/exclusions.ts");
+
+async function countsFixture() {
+  const [deployer, alice, bob, carol] = await ethers.getSigners();
+  const Token = await ethers.getContractFactory("MRToken");
+  const token = await Token.deploy(deployer.address);
+  await token.waitForDeployment();
+  const contract = await token.getAddress();
+  const counts = new Map([
+    [deployer.address, 1],
+    [alice.address, 2],
+    [bob.address, 1],
+    [carol.address, 3],
+    [contract, 1],
+  ]);
+  return { deployer, alice, bob, carol, contract, counts };
+}
+
+describe("reward exclusions", function () {
+  it("drops denylisted accounts with their note", async () => {
+    const { deployer, alice, counts } = await countsFixture();
+    const config = loadExclusionConfig({ REWARD_DENYLIST: `${deployer.address.toLowerCase()}:deployer, ${alice.address}` });
+    const out = await applyExclusions(ethers.provider, counts, config);
+
+    expect(out.counts.has(deployer.address)).to.equal(false);
+    expect(out.counts.has(alice.address)).to.equal(false);
+    expect(out.counts.size).to.equal(3);
+    const byAccount = Object.fromEntries(out.excluded.map((e) => [e.account, e]));
+    expect(byAccount[deployer.address]).to.deep.include({ reason: "denylist", note: "deployer", count: 1 });
+    expect(byAccount[alice.address]).to.deep.include({ reason: "denylist", count: 2 });
+  });
+
+  it("keeps only allowlisted accounts, and the denylist still wins", async () => {
+    const { alice, bob, carol, counts } = await countsFixture();
+    const config = loadExclusionConfig({
+      REWARD_ALLOWLIST: `${alice.address},${bob.address}`,
+      REWARD_DENYLIST: bob.address,
+    });
+    const out = await applyExclusions(ethers.provider, counts, config);
+
+    expect([...out.counts.keys()]).to.deep.equal([alice.address]);
+    expect(out.excluded.find((e) => e.account === bob.address).reason).to.equal("denylist");
+    expect(out.excluded.find((e) => e.account === carol.address).reason).to.equal("not-allowlisted");
+  });
+
+  it("filters accounts with bytecode when EXCLUDE_CONTRACTS is on", async () => {
+    const { contract, counts } = await countsFixture();
+    const out = await applyExclusions(ethers.provider, counts, loadExclusionConfig({ EXCLUDE_CONTRACTS: "1" }));
+
+    expect(out.counts.has(contract)).to.equal(false);
+    expect(out.counts.size).to.equal(4);
+    expect(out.excluded).to.deep.equal([{ account: contract, reason: "contract", count: 1 }]);
+  });
+
+  it("checks bytecode as of the given block", async () => {
+    const { contract, counts } = await countsFixture();
+    const deployed = await ethers.provider.getBlockNumber();
+    const out = await applyExclusions(ethers.provider, counts, loadExclusionConfig({ EXCLUDE_CONTRACTS: "1" }), deployed - 1);
+    expect(out.counts.has(contract)).to.equal(true);
+    expect(out.excluded).to.have.length(0);
+  });
+
+  it("rejects malformed list entries", () => {
+    expect(() => loadExclusionConfig({ REWARD_DENYLIST: "0x1234:typo" })).to.throw(/REWARD_DENYLIST/);
+  });
+});
@@ -0,0 +1,70 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+const { holderCounts, snapshotHolders } = require("../../frontend/lib/holders.ts");
+
+const PRICE = ethers.parseEther("0.02");
+
+async function mintedFixture() {
+  const [owner, alice, bob, carol] = await ethers.getSigners();
+  const NFT = await ethers.getContractFactory("MRTNFToken");
+  const nft = await NFT.deploy(owner.address, "ipfs://QmTestMetadataCID/", 10, PRICE, owner.address, 500);
+  await nft.waitForDeployment();
+  const deployBlock = await ethers.provider.getBlockNumber();
+
+  await nft.connect(alice).mint(3, { value: PRICE * 3n }); // 1, 2, 3
+  await nft.connect(bob).mint(1, { value: PRICE });        // 4
+  const address = await nft.getAddress();
+  return { nft, address, deployBlock, alice, bob, carol };
+}
+
+describe("holder snapshot", function () {
+  it("counts owners after mints and transfers", async () => {
+    const { nft, address, deployBlock, alice, bob, carol } = await loadFixture(mintedFixture);
+    await nft.connect(alice).transferFrom(alice.address, carol.address, 2n);
+
+    const snap = await snapshotHolders(ethers.provider, address, await ethers.provider.getBlockNumber(), undefined, { deployBlock });
+    expect(Object.keys(snap.owners)).to.have.length(4);
+    expect(snap.owners["2"]).to.equal(carol.address);
+
+    const counts = holderCounts(snap);
+    expect(counts.get(alice.address)).to.equal(2);
+    expect(counts.get(bob.address)).to.equal(1);
+    expect(counts.get(carol.address)).to.equal(1);
+  });
+
+  it("ignores transfers after the snapshot block", async () => {
+    const { nft, address, deployBlock, alice, bob } = await loadFixture(mintedFixture);
+    const before = await ethers.provider.getBlockNumber();
+    await nft.connect(bob).transferFrom(bob.address, alice.address, 4n);
+
+    const counts = holderCounts(await snapshotHolders(ethers.provider, address, before, undefined, { deployBlock }));
+    expect(counts.get(alice.address)).to.equal(3);
+    expect(counts.get(bob.address)).to.equal(1);
+  });
+
+  it("resumes from a previous snapshot and matches a full replay", async () => {
+    const { nft, address, deployBlock, alice, bob, carol } = await loadFixture(mintedFixture);
+    const first = await snapshotHolders(ethers.provider, address, await ethers.provider.getBlockNumber(), undefined, { deployBlock });
+
+    await nft.connect(alice).transferFrom(alice.address, bob.address, 1n);
+    await nft.connect(bob).transferFrom(bob.address, carol.address, 4n);
+    const head = await ethers.provider.getBlockNumber();
+
+    const resumed = await snapshotHolders(ethers.provider, address, head, first, { deployBlock });
+    const full = await snapshotHolders(ethers.provider, address, head, undefined, { deployBlock });
+    expect(resumed.owners).to.deep.equal(full.owners);
+    expect(holderCounts(resumed).get(carol.address)).to.equal(1);
+  });
+
+  it("replays from deployment when the previous snapshot is ahead of the requested block", async () => {
+    const { nft, address, deployBlock, alice, carol } = await loadFixture(mintedFixture);
+    const before = await ethers.provider.getBlockNumber();
+    await nft.connect(alice).transferFrom(alice.address, carol.address, 3n);
+    const later = await snapshotHolders(ethers.provider, address, await ethers.provider.getBlockNumber(), undefined, { deployBlock });
+
+    const earlier = await snapshotHolders(ethers.provider, address, before, later, { deployBlock });
+    expect(earlier.block).to.equal(before);
+    expect(earlier.owners["3"]).to.equal(alice.address);
+  });
+});
@@ -0,0 +1,133 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+const { MerkleTree } = require("merkletreejs");
+const keccak256 = require("keccak256");
+const {
+  buildPayload,
+  leafHash,
+  cumulativeLeafHash,
+  verifyClaim,
+  verifyProof,
+  computePayloadRoot,
+  EMPTY_ROOT,
+} = require("../../frontend/lib/merkle.ts");
+
+const REWARD = ethers.parseUnits("5", 18);
+const ROUND = 490000n;
+const ACCOUNTS = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0xabcdef0123456789abcdef0123456789abcdef01",
+  "0x3333333333333333333333333333333333333333",
+  "0x4444444444444444444444444444444444444444",
+];
+
+function entitlements(accounts, amount = REWARD) {
+  return new Map(accounts.map((a) => [a, amount]));
+}
+
+async function deployFixture() {
+  const [owner, ...users] = await ethers.getSigners();
+  const token = await ethers.deployContract("MRToken", [owner.address]);
+  const dist = await ethers.deployContract("MerkleDistributor", [owner.address, await token.getAddress(), REWARD]);
+  const cumulative = await ethers.deployContract("CumulativeMerkleDistributor", [owner.address, await token.getAddress(), REWARD]);
+  await token.transfer(await dist.getAddress(), ethers.parseUnits("200", 18));
+  await token.transfer(await cumulative.getAddress(), ethers.parseUnits("200", 18));
+  return { token, dist, cumulative, owner, users: users.slice(0, 7) };
+}
+
+describe("merkle core", function () {
+  describe("golden vectors", () => {
+    it("encodes leaves like abi.encodePacked in the distributors", () => {
+      expect(leafHash(ACCOUNTS[0], REWARD, ROUND))
+        .to.equal("0x36b64d54c0dd50db9286d3237fcd7070ef4537039fad8689c3ab61134903d934");
+      expect(cumulativeLeafHash(ACCOUNTS[0], REWARD))
+        .to.equal("0xd970b931ba7866f64b09ba340a09c7beee1f20fe484743f6183bf21a4e700481");
+    });
+
+    it("produces fixed roots for 1, 2, 3 and 5 leaves", () => {
+      const roots = {
+        1: "0x36b64d54c0dd50db9286d3237fcd7070ef4537039fad8689c3ab61134903d934",
+        2: "0x8f05efd2e40dab7caba68296fc347f888d8604022dac7c5c080b703d29bb5e60",
+        3: "0x9f266e82ecd7831d90c35faea8136f07b0ffe23b2d46604e78f31ca443151eb7",
+        5: "0x854307555a96f2ce198e893faa0c6218ed72ba2400b47e600171402059582c0f",
+      };
+      for (const [n, root] of Object.entries(roots)) {
+        expect(buildPayload(entitlements(ACCOUNTS.slice(0, Number(n))), "round", ROUND).root).to.equal(root);
+      }
+      const cumulative = buildPayload(
+        new Map([[ACCOUNTS[0], REWARD], [ACCOUNTS[1], REWARD * 3n]]),
+        "cumulative",
+        ROUND
+      );
+      expect(cumulative.root).to.equal("0xc33ba1d994e5fdc1c96aac51071ecd29ba4b63fab7794310c64ed6577c9f0c46");
+    });
+
+    it("uses a non-zero sentinel root for empty rounds", () => {
+      const payload = buildPayload(new Map(), "round", ROUND);
+      expect(payload.root).to.equal(EMPTY_ROOT);
+      expect(payload.claims).to.deep.equal([]);
+      expect(EMPTY_ROOT).to.not.equal(ethers.ZeroHash);
+    });
+  });
+
+  it("does not depend on address casing", () => {
+    const lower = buildPayload(entitlements(ACCOUNTS), "round", ROUND);
+    const checksummed = buildPayload(entitlements(ACCOUNTS.map((a) => ethers.getAddress(a))), "round", ROUND);
+    expect(lower).to.deep.equal(checksummed);
+    expect(lower.claims.map((c) => c.account)).to.deep.equal(ACCOUNTS.map((a) => ethers.getAddress(a)).sort());
+  });
+
+  it("matches merkletreejs with sortPairs for every tree size up to 9", async () => {
+    const signers = (await ethers.getSigners()).map((s) => s.address);
+    for (let n = 1; n <= 9; n++) {
+      const payload = buildPayload(entitlements(signers.slice(0, n)), "round", ROUND);
+      const leaves = payload.claims.map((c) => Buffer.from(leafHash(c.account, REWARD, ROUND).slice(2), "hex"));
+      const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
+
+      expect(payload.root).to.equal("0x" + tree.getRoot().toString("hex"));
+      payload.claims.forEach((c, i) => expect(c.proof).to.deep.equal(tree.getHexProof(leaves[i])));
+      expect(computePayloadRoot(payload)).to.equal(payload.root);
+    }
+  });
+
+  it("generates proofs that MerkleDistributor.claim accepts", async () => {
+    const { token, dist, users } = await loadFixture(deployFixture);
+    const payload = buildPayload(entitlements(users.map((u) => u.address)), "round", ROUND);
+    await dist.setRoot(payload.root, ROUND);
+
+    for (const c of payload.claims) {
+      expect(verifyClaim(payload, c)).to.equal(true);
+      await expect(dist.claim(ROUND, c.account, c.amount, c.proof))
+        .to.emit(dist, "Claimed")
+        .withArgs(ROUND, c.account, REWARD);
+      expect(await token.balanceOf(c.account)).to.equal(REWARD);
+    }
+  });
+
+  it("rejects tampered proofs both off-chain and on-chain", async () => {
+    const { dist, users } = await loadFixture(deployFixture);
+    const payload = buildPayload(entitlements(users.map((u) => u.address)), "round", ROUND);
+    await dist.setRoot(payload.root, ROUND);
+
+    const [first, second] = payload.claims;
+    const forged = { ...first, proof: second.proof };
+    expect(verifyClaim(payload, forged)).to.equal(false);
+    expect(verifyProof(first.proof, payload.root, leafHash(first.account, REWARD, ROUND + 1n))).to.equal(false);
+    await expect(dist.claim(ROUND, forged.account, forged.amount, forged.proof)).to.be.revertedWith("BAD_PROOF");
+  });
+
+  it("generates proofs that CumulativeMerkleDistributor.claim accepts", async () => {
+    const { token, cumulative, users } = await loadFixture(deployFixture);
+    const totals = new Map(users.map((u, i) => [u.address, REWARD * BigInt(i + 1)]));
+    const payload = buildPayload(totals, "cumulative", ROUND);
+    await cumulative.setRoot(payload.root, ROUND);
+
+    for (const c of payload.claims) {
+      expect(verifyClaim(payload, c)).to.equal(true);
+      await cumulative.claim(c.account, c.amount, c.proof);
+      expect(await token.balanceOf(c.account)).to.equal(BigInt(c.amount));
+    }
+  });
+});
@@ -0,0 +1,88 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { buildPayload } = require("../../frontend/lib/merkle.ts");
+const { checkClaimProof, checkPayload, payloadContentHash, signPayload } = require("../../frontend/lib/signing.ts");
+
+const REWARD = ethers.parseUnits("5", 18);
+const ROUND = 490000n;
+const DISTRIBUTOR = "0x9039103F59855c4eA3AE7Cc048855a6Eccb4624D";
+const CHAIN_ID = 11155111;
+
+async function signedFixture() {
+  const [publisher, other, ...users] = await ethers.getSigners();
+  const payload = buildPayload(new Map(users.slice(0, 4).map((u) => [u.address, REWARD])), "round", ROUND);
+  const signed = await signPayload(publisher, payload, CHAIN_ID, DISTRIBUTOR);
+  return { publisher, other, payload, signed };
+}
+
+describe("payload signing", function () {
+  it("accepts a signed payload that matches the on-chain root and round", async () => {
+    const { publisher, signed } = await signedFixture();
+    expect(signed.contentHash).to.equal(payloadContentHash(signed));
+    expect(signed.signature.signer).to.equal(publisher.address);
+    expect(checkPayload(signed, {
+      distributor: DISTRIBUTOR,
+      signer: publisher.address,
+      onchainRoot: signed.root,
+      onchainRound: ROUND,
+    })).to.deep.equal({ status: "ok" });
+  });
+
+  it("survives a JSON round trip with reordered keys", async () => {
+    const { publisher, signed } = await signedFixture();
+    const reordered = JSON.parse(JSON.stringify({ signature: signed.signature, claims: signed.claims, ...signed }));
+    expect(checkPayload(reordered, { distributor: DISTRIBUTOR, signer: publisher.address }).status).to.equal("ok");
+  });
+
+  it("flags edited amounts as tampered, even when re-hashed", async () => {
+    const { publisher, signed } = await signedFixture();
+    const edited = structuredClone(signed);
+    edited.claims[0].amount = (REWARD * 10n).toString();
+    expect(checkPayload(edited, { distributor: DISTRIBUTOR, signer: publisher.address }).status).to.equal("tampered");
+
+    // re-hashed by the attacker: the signature no longer covers it
+    edited.contentHash = payloadContentHash(edited);
+    expect(checkPayload(edited, { distributor: DISTRIBUTOR, signer: publisher.address }).status).to.equal("tampered");
+  });
+
+  it("rejects signatures from anyone but the expected publisher", async () => {
+    const { other, payload, publisher } = await signedFixture();
+    const forged = await signPayload(other, payload, CHAIN_ID, DISTRIBUTOR);
+    expect(checkPayload(forged, { distributor: DISTRIBUTOR, signer: publisher.address }).status).to.equal("tampered");
+    expect(checkPayload(forged, { distributor: other.address, signer: other.address }).status).to.equal("tampered");
+  });
+
+  it("reports a root or round the distributor does not hold as stale", async () => {
+    const { publisher, signed } = await signedFixture();
+    const base = { distributor: DISTRIBUTOR, signer: publisher.address };
+    expect(checkPayload(signed, { ...base, onchainRoot: ethers.ZeroHash }).status).to.equal("stale");
+    expect(checkPayload(signed, { ...base, onchainRoot: signed.root, onchainRound: ROUND - 1n }).status).to.equal("stale");
+  });
+
+  it("marks consistent but unsigned payloads as unsigned", async () => {
+    const { publisher, payload } = await signedFixture();
+    expect(checkPayload(payload, { distributor: DISTRIBUTOR, signer: publisher.address, onchainRoot: payload.root }).status).to.equal("unsigned");
+  });
+
+  describe("single-claim check", () => {
+    it("accepts one claim checked against the signed header", async () => {
+      const { publisher, signed } = await signedFixture();
+      const { claims, ...header } = signed;
+      expect(checkClaimProof(header, claims[2], {
+        distributor: DISTRIBUTOR,
+        signer: publisher.address,
+        onchainRoot: signed.root,
+        onchainRound: ROUND,
+      })).to.deep.equal({ status: "ok" });
+    });
+
+    it("rejects a claim whose proof or amount does not lead to the root", async () => {
+      const { publisher, signed } = await signedFixture();
+      const { claims, ...header } = signed;
+      const base = { distributor: DISTRIBUTOR, signer: publisher.address };
+      expect(checkClaimProof(header, { ...claims[0], proof: claims[1].proof }, base).status).to.equal("tampered");
+      expect(checkClaimProof(header, { ...claims[0], amount: (REWARD * 2n).toString() }, base).status).to.equal("tampered");
+      expect(checkClaimProof({ ...header, root: ethers.ZeroHash }, claims[0], base).status).to.equal("tampered");
+    });
+  });
+});
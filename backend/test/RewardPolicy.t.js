@@ -0,0 +1,62 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+const { buildPayload } = require("../../frontend/lib/merkle.ts");
+const { computeRewards, isFlatPolicy, parseRewardPolicy, rewardFor, FLAT_POLICY } = require("../../frontend/lib/rewards.ts");
+
+const REWARD = ethers.parseUnits("5", 18);
+const ROUND = 490000n;
+
+const TIERED = {
+  id: "tiered",
+  version: 2,
+  base: "perNft",
+  tiers: [{ minCount: 3, multiplierBps: 15000 }, { minCount: 5, multiplierBps: 20000 }],
+  capPerAccount: ethers.parseUnits("40", 18).toString(),
+};
+
+async function deployFixture() {
+  const [owner, ...users] = await ethers.getSigners();
+  const token = await ethers.deployContract("MRToken", [owner.address]);
+  const cumulative = await ethers.deployContract("CumulativeMerkleDistributor", [owner.address, await token.getAddress(), REWARD]);
+  await token.transfer(await cumulative.getAddress(), ethers.parseUnits("500", 18));
+  return { token, cumulative, users: users.slice(0, 4) };
+}
+
+describe("reward policies", function () {
+  it("flat pays rewardAmount once per account, whatever the mint count", () => {
+    expect(isFlatPolicy(FLAT_POLICY)).to.equal(true);
+    expect(rewardFor(1, FLAT_POLICY, REWARD).amount).to.equal(REWARD.toString());
+    expect(rewardFor(4, FLAT_POLICY, REWARD).amount).to.equal(REWARD.toString());
+  });
+
+  it("applies per-NFT units, the highest reached tier, then the cap", () => {
+    expect(rewardFor(2, TIERED, REWARD).amount).to.equal(ethers.parseUnits("10", 18).toString());
+    expect(rewardFor(3, TIERED, REWARD)).to.include({ multiplierBps: 15000, amount: ethers.parseUnits("22.5", 18).toString() });
+    const capped = rewardFor(6, TIERED, REWARD);
+    expect(capped.uncapped).to.equal(ethers.parseUnits("60", 18).toString());
+    expect(capped.amount).to.equal(ethers.parseUnits("40", 18).toString());
+    expect(capped.policy).to.equal("tiered@2");
+  });
+
+  it("rejects malformed policies", () => {
+    expect(parseRewardPolicy(undefined)).to.deep.equal(FLAT_POLICY);
+    expect(() => parseRewardPolicy('{"id":"x","version":1,"base":"perWallet"}')).to.throw("unknown base");
+    expect(() => parseRewardPolicy('{"id":"x","version":1,"base":"perNft","unit":"5e18"}')).to.throw("unit");
+    expect(() => parseRewardPolicy('{"id":"x","version":0,"base":"flat"}')).to.throw("version");
+    expect(isFlatPolicy(parseRewardPolicy(JSON.stringify(TIERED)))).to.equal(false);
+  });
+
+  it("produces weighted cumulative leaves the distributor pays out", async () => {
+    const { token, cumulative, users } = await loadFixture(deployFixture);
+    const counts = new Map(users.map((u, i) => [u.address, i + 1]));
+    const rewards = computeRewards(counts, TIERED, REWARD);
+    const payload = buildPayload(new Map([...rewards].map(([a, r]) => [a, BigInt(r.amount)])), "cumulative", ROUND);
+    await cumulative.setRoot(payload.root, ROUND);
+
+    for (const c of payload.claims) {
+      await cumulative.claim(c.account, c.amount, c.proof);
+      expect(await token.balanceOf(c.account)).to.equal(BigInt(rewards.get(c.account).amount));
+    }
+  });
+});
@@ -0,0 +1,311 @@
+"use client";
+
+import * as React from "react";
+import { useAccount, useChainId, useReadContract, useSignTypedData } from "wagmi";
+import type { Abi } from "viem";
+import { formatUnits } from "viem";
+import { sepolia } from "wagmi/chains";
+import { EmptyState, Stat, Banner, SkeletonBlock, Spinner } from "@/app/components/Helpers";
+import { friendlyMessage } from "@/lib/contractErrors";
+import { ADMIN_SESSION_PURPOSE, ADMIN_SESSION_TYPES, adminDomain, type AdminSession } from "@/lib/signing";
+import type { OperatorStatus } from "@/lib/operator";
+
+const ADMIN_API = "/api/admin";
+const DISTRIBUTOR = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}`;
+const TOKEN = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as `0x${string}`;
+// Must stay within ADMIN_SESSION_SECONDS on the server (default one hour)
+const SESSION_SECONDS = 3600;
+
+const erc20Abi = [
+  { name: "decimals", stateMutability: "view", type: "function", inputs: [], outputs: [{ type: "uint8" }] },
+] as const satisfies Abi;
+
+type SignedSession = { session: AdminSession; signature: `0x${string}` };
+type StatusResponse = ({ ok: true } & OperatorStatus) | { ok: false; error: string };
+
+function fmtAmount(base: string, decimals: number, maxFrac = 4): string {
+  const s = formatUnits(BigInt(base), decimals);
+  const [i, f = ""] = s.split(".");
+  const f2 = f.slice(0, maxFrac).replace(/0+$/, "");
+  return f2 ? `${i}.${f2}` : i;
+}
+
+function shorten(hash: string, left = 8, right = 6) {
+  return hash.length > left + right + 2 ? `${hash.slice(0, left)}…${hash.slice(-right)}` : hash;
+}
+
+// Kept per tab and wallet, so a reload does not ask for another signature
+function storedSession(address: string): SignedSession | undefined {
+  try {
+    const raw = sessionStorage.getItem(`mrt-admin:${address.toLowerCase()}`);
+    const parsed = raw ? (JSON.parse(raw) as SignedSession) : undefined;
+    return parsed && parsed.session.expiresAt > Date.now() / 1000 + 30 ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function Pill({ ok, children }: { ok: boolean; children: React.ReactNode }) {
+  const cls = ok
+    ? "bg-emerald-500/10 text-emerald-300 border-emerald-500/30"
+    : "bg-amber-500/10 text-amber-300 border-amber-500/30";
+  return <span className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>{children}</span>;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h2 className="text-xs uppercase tracking-wide text-zinc-500">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const { address, chain } = useAccount();
+  const chainId = useChainId();
+  const explorer = (chain ?? sepolia).blockExplorers?.default.url;
+  const { signTypedDataAsync, isPending: signing } = useSignTypedData();
+
+  const [signed, setSigned] = React.useState<SignedSession | undefined>();
+  const [status, setStatus] = React.useState<OperatorStatus | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [round, setRound] = React.useState<number | undefined>();
+
+  React.useEffect(() => {
+    setStatus(null);
+    setError(null);
+    setRound(undefined);
+    setSigned(address ? storedSession(address) : undefined);
+  }, [address]);
+
+  const { data: decimals } = useReadContract({ address: TOKEN, abi: erc20Abi, functionName: "decimals" });
+  const tokenDecimals = typeof decimals === "number" ? decimals : 18;
+
+  async function signIn() {
+    if (!address) return;
+    setError(null);
+    const now = Math.floor(Date.now() / 1000);
+    const session: AdminSession = { purpose: ADMIN_SESSION_PURPOSE, issuedAt: now, expiresAt: now + SESSION_SECONDS };
+    try {
+      const signature = await signTypedDataAsync({
+        domain: adminDomain(chainId, DISTRIBUTOR),
+        types: ADMIN_SESSION_TYPES,
+        primaryType: "AdminSession",
+        message: session,
+      });
+      const next = { session, signature };
+      sessionStorage.setItem(`mrt-admin:${address.toLowerCase()}`, JSON.stringify(next));
+      setSigned(next);
+    } catch (e) {
+      setError(friendlyMessage(e));
+    }
+  }
+
+  const load = React.useCallback(async () => {
+    if (!signed || !address) return;
+    setLoading(true);
+    try {
+      const r = await fetch(ADMIN_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...signed, round }),
+      });
+      const j: StatusResponse = await r.json();
+      if (!j.ok) {
+        setError(j.error);
+        // the session is no good any more: ask for a new one
+        if (r.status === 401 || r.status === 403) {
+          sessionStorage.removeItem(`mrt-admin:${address.toLowerCase()}`);
+          setSigned(undefined);
+        }
+        return;
+      }
+      if (j.warn.length) console.warn("[admin]", j.warn);
+      setError(null);
+      setStatus(j);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [signed, address, round]);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  const last = status?.lastRebuild;
+  const lastWarn = last?.result?.warn ?? [];
+
+  return (
+    <div className="min-h-screen bg-black text-zinc-200 py-10 px-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-6 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight">
+              <span className="bg-gradient-to-r from-indigo-400 to-fuchsia-400 bg-clip-text text-transparent">
+                Operator dashboard
+              </span>
+            </h1>
+            <p className="text-zinc-400 mt-1">Builder and distributor health. Only the distributor owner can open it.</p>
+          </div>
+          {status && (
+            <button
+              onClick={() => void load()}
+              disabled={loading}
+              className="inline-flex items-center gap-2 rounded-xl border border-zinc-700 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-800 disabled:opacity-50"
+            >
+              {loading && <Spinner />} Refresh
+            </button>
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-zinc-800 bg-zinc-900/70 shadow-2xl backdrop-blur-sm">
+          <div className="p-5 sm:p-6 space-y-6">
+            {!address && <EmptyState title="Connect the owner wallet" subtitle="The dashboard asks it to sign a one-hour session." />}
+
+            {error && <Banner tone="error">{error}</Banner>}
+
+            {address && !signed && (
+              <div className="flex flex-col items-center gap-3 py-6">
+                <p className="text-sm text-zinc-400">Sign a session message with the distributor owner wallet. It sends no transaction.</p>
+                <button
+                  onClick={() => void signIn()}
+                  disabled={signing}
+                  className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                >
+                  {signing && <Spinner />} Sign in
+                </button>
+              </div>
+            )}
+
+            {signed && !status && !error && <SkeletonBlock />}
+
+            {status && (
+              <>
+                <Section title="Published vs on-chain">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <Stat label={`Store (${status.store})`} value={status.published ? `Round ${status.published.round}` : "Nothing published"} />
+                    <Stat label="Distributor" value={`Round ${status.onchain.round}`} />
+                    <Stat label="Sync" value={<Pill ok={status.inSync}>{status.inSync ? "In sync" : "Out of sync"}</Pill>} />
+                    <Stat label="Indexed to" value={status.indexedTo ?? "—"} />
+                  </div>
+                  <div className="text-xs text-zinc-400 space-y-1 font-mono">
+                    <p>store root&nbsp;&nbsp; {status.published?.root ?? "—"} {status.published && `(${status.published.count} claims, ${status.published.signed ? "signed" : "unsigned"})`}</p>
+                    <p>on-chain root {status.onchain.root}</p>
+                  </div>
+                  {status.pendingTx && (
+                    <Banner tone="info">setRoot pending: <span className="font-mono">{shorten(status.pendingTx.hash)}</span></Banner>
+                  )}
+                  {status.lock && <Banner tone="info">A rebuild holds the lease until {new Date(status.lock.expiresAt).toLocaleTimeString()}.</Banner>}
+                </Section>
+
+                <Section title="Balances">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Stat label="Distributor" value={`${fmtAmount(status.balances.distributor, tokenDecimals)} MRT`} />
+                    <Stat label="Staking vault" value={status.balances.vault ? `${fmtAmount(status.balances.vault.balance, tokenDecimals)} MRT` : "Not configured"} />
+                  </div>
+                </Section>
+
+                <Section title="Last rebuild">
+                  {!last ? (
+                    <p className="text-sm text-zinc-400">No publishing run recorded yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-sm">
+                        {new Date(last.at).toLocaleString()} ·{" "}
+                        {last.error ? (
+                          <Pill ok={false}>error</Pill>
+                        ) : (
+                          <Pill ok={!!last.result?.ok}>{last.result?.reason ?? (last.result?.ok ? "ok" : "failed")}</Pill>
+                        )}{" "}
+                        {last.result && <span className="text-zinc-400">round {last.result.round}, {last.result.count} claims</span>}
+                      </p>
+                      {last.error && <Banner tone="error">{last.error}</Banner>}
+                      {lastWarn.length > 0 && (
+                        <ul className="list-disc pl-5 text-sm text-amber-300 space-y-1">
+                          {lastWarn.map((w, i) => <li key={i}>{w}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </Section>
+
+                <Section title="Rounds">
+                  {status.rounds.length === 0 ? (
+                    <p className="text-sm text-zinc-400">No archived rounds.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs uppercase tracking-wide text-zinc-500">
+                            <th className="py-2 pr-3">Round</th>
+                            <th className="py-2 pr-3">Mode</th>
+                            <th className="py-2 pr-3">Root</th>
+                            <th className="py-2 pr-3 text-right">Claimed</th>
+                            <th className="py-2 pr-3">On-chain</th>
+                            <th className="py-2">Updated</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-zinc-800">
+                          {status.rounds.map((r) => (
+                            <tr
+                              key={r.round}
+                              onClick={() => setRound(r.round)}
+                              className={`cursor-pointer hover:bg-zinc-800/50 ${status.claims?.round === r.round ? "bg-zinc-800/40" : ""}`}
+                            >
+                              <td className="py-2 pr-3 font-mono">{r.round}</td>
+                              <td className="py-2 pr-3 text-zinc-400">{r.mode}</td>
+                              <td className="py-2 pr-3 font-mono text-xs">{shorten(r.root)}</td>
+                              <td className="py-2 pr-3 text-right font-mono">{r.claimed} / {r.count}</td>
+                              <td className="py-2 pr-3"><Pill ok={r.onchain}>{r.onchain ? "yes" : "no"}</Pill></td>
+                              <td className="py-2 text-zinc-400">{new Date(r.updatedAt).toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Section>
+
+                {status.claims && (
+                  <Section title={`Round ${status.claims.round}: ${status.claims.claimed.length} claimed, ${status.claims.unclaimed.length} unclaimed`}>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <h3 className="text-sm font-semibold text-emerald-300">Claimed</h3>
+                        {status.claims.claimed.length === 0 && <p className="text-xs text-zinc-500">None</p>}
+                        {status.claims.claimed.map((c) => (
+                          <p key={c.account} className="text-xs font-mono text-zinc-300">
+                            {shorten(c.account)} · {fmtAmount(c.amount, tokenDecimals)} MRT ·{" "}
+                            {explorer ? (
+                              <a href={`${explorer}/tx/${c.txHash}`} target="_blank" rel="noreferrer" className="text-indigo-300 hover:underline">
+                                {shorten(c.txHash)}
+                              </a>
+                            ) : shorten(c.txHash)}
+                          </p>
+                        ))}
+                      </div>
+                      <div className="space-y-1">
+                        <h3 className="text-sm font-semibold text-amber-300">Unclaimed</h3>
+                        {status.claims.unclaimed.length === 0 && <p className="text-xs text-zinc-500">None</p>}
+                        {status.claims.unclaimed.map((c) => (
+                          <p key={c.account} className="text-xs font-mono text-zinc-300">
+                            {shorten(c.account)} · {fmtAmount(c.amount, tokenDecimals)} MRT
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  </Section>
+                )}
+
+                <p className="text-xs text-zinc-500">Claimed events indexed up to block {status.eventsIndexedTo}.</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JsonRpcProvider } from "ethers";
+import { operatorStatus, verifyOwnerSession } from "@/lib/operator";
+import { callerKey } from "@/lib/auth";
+import { rateLimit } from "@/lib/ratelimit";
+import { errorMessage } from "@/lib/rebuild";
+import type { AdminSession } from "@/lib/signing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RATE_LIMIT = Number(process.env.ADMIN_RATE_LIMIT ?? 30);
+const RATE_WINDOW_MS = 60_000;
+
+type AdminRequest = { session?: AdminSession; signature?: string; round?: number };
+
+// POST /api/admin {session, signature[, round]} → operator status for the dashboard.
+// session is an AdminSession signed by the distributor owner (see lib/operator.ts).
+export async function POST(req: NextRequest) {
+  const rl = await rateLimit(`admin:${callerKey(req)}`, RATE_LIMIT, RATE_WINDOW_MS);
+  if (!rl.ok) return NextResponse.json({ ok: false, error: "rate limited" }, { status: 429 });
+
+  const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL;
+  const distributor = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined;
+  if (!rpcUrl || !distributor) {
+    return NextResponse.json({ ok: false, error: "Missing RPC/DISTRIBUTOR env" }, { status: 500 });
+  }
+
+  let body: AdminRequest;
+  try {
+    body = (await req.json()) as AdminRequest;
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid JSON" }, { status: 400 });
+  }
+  if (body.round !== undefined && (!Number.isSafeInteger(body.round) || body.round < 0)) {
+    return NextResponse.json({ ok: false, error: "invalid round" }, { status: 400 });
+  }
+
+  try {
+    const provider = new JsonRpcProvider(rpcUrl);
+    const auth = await verifyOwnerSession(provider, distributor, body.session, body.signature);
+    if (!auth.ok) return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+
+    const status = await operatorStatus(provider, distributor, { round: body.round });
+    return NextResponse.json({ ok: true, ...status }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers, JsonRpcProvider, Contract } from "ethers";
+import { readArchivedRound } from "@/lib/archive";
+import { readJson } from "@/lib/store";
+import { LEDGER_KEY, type Ledger } from "@/lib/ledger";
+import { errorMessage } from "@/lib/rebuild";
+
+export const runtime = "nodejs";
+
+const DIST_READ_ABI = [
+  "function merkleRoot() view returns (bytes32)",
+  "function round() view returns (uint64)",
+  "function isClaimed(uint64 r, address a) view returns (bool)",
+  "function claimed(address a) view returns (uint256)",
+] as const;
+
+// GET /api/claims/<round>/<account> → proof + claim status for an archived round
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ round: string; account: string }> }
+) {
+  const { round: roundParam, account: accountParam } = await params;
+
+  const round = Number(roundParam);
+  if (!Number.isSafeInteger(round) || round < 0) {
+    return NextResponse.json({ ok: false, error: "invalid round" }, { status: 400 });
+  }
+  if (!ethers.isAddress(accountParam)) {
+    return NextResponse.json({ ok: false, error: "invalid account" }, { status: 400 });
+  }
+  const account = ethers.getAddress(accountParam) as `0x${string}`;
+
+  try {
+    const payload = await readArchivedRound(round);
+    if (!payload) {
+      return NextResponse.json({ ok: false, error: `round ${round} is not archived` }, { status: 404 });
+    }
+    const mode = payload.mode ?? "round";
+    const entry = payload.claims.find((c) => c.account.toLowerCase() === account.toLowerCase());
+
+    // Cumulative snapshots carry running totals; the ledger says what was earned in this round
+    let earnedInRound: string | undefined;
+    if (mode === "cumulative") {
+      const ledger = await readJson<Ledger>(LEDGER_KEY);
+      earnedInRound = ledger?.rounds[String(round)]?.[account] ?? "0";
+    }
+
+    let onchain: { round: number; root: `0x${string}`; live: boolean } | undefined;
+    let claimed: boolean | undefined;
+    const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL;
+    const distributor = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS;
+    if (rpcUrl && distributor) {
+      const dist = new Contract(distributor, DIST_READ_ABI, new JsonRpcProvider(rpcUrl));
+      const [root, onchainRound] = await Promise.all([dist.merkleRoot(), dist.round()]) as [`0x${string}`, bigint];
+      onchain = {
+        round: Number(onchainRound),
+        root,
+        live: Number(onchainRound) === round && root.toLowerCase() === payload.root.toLowerCase(),
+      };
+      if (entry) {
+        claimed = mode === "cumulative"
+          ? (await dist.claimed(account) as bigint) >= BigInt(entry.amount)
+          : await dist.isClaimed(BigInt(round), account) as boolean;
+      }
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        round,
+        mode,
+        account,
+        eligible: !!entry,
+        amount: entry?.amount,
+        earnedInRound,
+        reward: entry?.reward,
+        policy: payload.policy,
+        proof: entry?.proof,
+        root: payload.root,
+        claimed,
+        onchain,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getClaimsStore } from "@/lib/store";
+import { errorMessage } from "@/lib/rebuild";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/claims/current → the published proofs payload, from whichever store is configured
+export async function GET() {
+  try {
+    const body = await getClaimsStore().read("claims/current.json");
+    if (body === undefined) {
+      return NextResponse.json({ ok: false, error: "no payload published yet" }, { status: 404 });
+    }
+    return new NextResponse(body, {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
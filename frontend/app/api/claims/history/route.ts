@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Contract, ethers, JsonRpcProvider } from "ethers";
+import { currentDistributorEvents } from "@/lib/distributorEvents";
+import { accountHistory } from "@/lib/history";
+import { errorMessage } from "@/lib/rebuild";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/claims/history?account=0x.. → every round the account earned in, whether it was
+// claimed (with the tx), is still claimable or expired, and the total MRT it received.
+// Claimed/RootUpdated events are indexed incrementally from the last checkpoint on each call.
+export async function GET(req: NextRequest) {
+  const accountParam = req.nextUrl.searchParams.get("account") ?? "";
+  if (!ethers.isAddress(accountParam)) {
+    return NextResponse.json({ ok: false, error: "invalid account" }, { status: 400 });
+  }
+  const account = ethers.getAddress(accountParam) as `0x${string}`;
+
+  const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL;
+  const distributor = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined;
+  if (!rpcUrl || !distributor) {
+    return NextResponse.json({ ok: false, error: "Missing RPC/DISTRIBUTOR env" }, { status: 500 });
+  }
+
+  try {
+    const provider = new JsonRpcProvider(rpcUrl);
+    const dist = new Contract(distributor, ["function round() view returns (uint64)"], provider);
+    const [{ state, warn }, onchainRound] = await Promise.all([
+      currentDistributorEvents(provider, distributor),
+      dist.round() as Promise<bigint>,
+    ]);
+    const history = await accountHistory(account, state, Number(onchainRound));
+    return NextResponse.json(
+      { ok: true, ...history, ...(warn.length ? { warn } : {}) },
+      { headers: { "Cache-Control": "private, max-age=15" } }
+    );
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { readArchivedRound } from "@/lib/archive";
+import { readJson } from "@/lib/store";
+import { roundOf } from "@/lib/rounds";
+import { encodeLeaf, type ProofsPayload } from "@/lib/merkle";
+import { errorMessage } from "@/lib/rebuild";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/claims/proof?account=0x..[&round=N] → that account's leaf and proof only.
+// Without round it answers from claims/current.json, with round from the archive.
+// The ETag is (round, root). An explicit closed round never changes, so it is cached for
+// good. The live URL always revalidates: current.json lags the clock until the builder
+// runs, and the same URL then starts serving the next round.
+export async function GET(req: NextRequest) {
+  const accountParam = req.nextUrl.searchParams.get("account") ?? "";
+  const roundParam = req.nextUrl.searchParams.get("round");
+
+  if (!ethers.isAddress(accountParam)) {
+    return NextResponse.json({ ok: false, error: "invalid account" }, { status: 400 });
+  }
+  const account = ethers.getAddress(accountParam) as `0x${string}`;
+
+  let round: number | undefined;
+  if (roundParam !== null) {
+    round = Number(roundParam);
+    if (!Number.isSafeInteger(round) || round < 0) {
+      return NextResponse.json({ ok: false, error: "invalid round" }, { status: 400 });
+    }
+  }
+
+  try {
+    const payload = round === undefined
+      ? await readJson<ProofsPayload>("claims/current.json")
+      : await readArchivedRound(round);
+    if (!payload) {
+      const error = round === undefined ? "no payload published yet" : `round ${round} is not archived`;
+      return NextResponse.json({ ok: false, error }, { status: 404 });
+    }
+
+    const etag = `"${payload.round}-${payload.root}"`;
+    const closed = round !== undefined && payload.round < roundOf(Math.floor(Date.now() / 1000));
+    const headers = {
+      ETag: etag,
+      "Cache-Control": closed
+        ? "public, max-age=31536000, immutable"
+        : "public, max-age=0, s-maxage=30, stale-while-revalidate=30",
+      "X-Claims-Round": String(payload.round),
+    };
+    if (req.headers.get("if-none-match") === etag) return new NextResponse(null, { status: 304, headers });
+
+    const mode = payload.mode ?? "round";
+    const claim = payload.claims.find((c) => c.account.toLowerCase() === account.toLowerCase()) ?? null;
+    return NextResponse.json(
+      {
+        ok: true,
+        mode,
+        round: payload.round,
+        root: payload.root,
+        policy: payload.policy,
+        eligibility: payload.eligibility,
+        contentHash: payload.contentHash,
+        signature: payload.signature,
+        account,
+        eligible: !!claim,
+        leaf: claim ? encodeLeaf(mode, account, BigInt(claim.amount), BigInt(payload.round)) : null,
+        claim,
+      },
+      { headers }
+    );
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
@@ -1,38 +1,89 @@
 import { NextRequest, NextResponse } from "next/server";
-import crypto from "node:crypto";
-import { rebuildAndPush } from "@/lib/rebuild";
+import { errorMessage, rebuildAndPush } from "@/lib/rebuild";
+import { authenticate, callerKey } from "@/lib/auth";
+import { rateLimit } from "@/lib/ratelimit";
+import { readRoundIndex } from "@/lib/archive";
+import { loadIndexerState } from "@/lib/indexer";
+import { postAlert } from "@/lib/alerts";
+import { forgetWebhookEvent, parseAlchemyWebhook, rememberWebhookEvent } from "@/lib/webhook";
 
 export const runtime = "nodejs";
 
-function verifyBearer(req: NextRequest) {
-  const token = process.env.REBUILD_TOKEN;
-  if (!token) return true; // no token → allow (dev)
-  const auth = req.headers.get("authorization") || "";
-  return auth === `Bearer ${token}`;
+const RATE_LIMIT = Number(process.env.REBUILD_RATE_LIMIT ?? 10);
+const RATE_WINDOW_MS = Number(process.env.REBUILD_RATE_WINDOW_SECONDS ?? 60) * 1000;
+
+async function limited(req: NextRequest) {
+  const rl = await rateLimit(`rebuild:${req.method}:${callerKey(req)}`, RATE_LIMIT, RATE_WINDOW_MS);
+  if (rl.ok) return undefined;
+  return NextResponse.json(
+    { ok: false, error: "rate limited" },
+    { status: 429, headers: { "Retry-After": String(Math.max(1, Math.ceil((rl.resetAt - Date.now()) / 1000))) } }
+  );
 }
 
-// Optional: verify Alchemy webhook signature if you use their callback
-function verifyAlchemySignature(raw: string, req: NextRequest) {
-  const signingKey = process.env.ALCHEMY_SIGNING_KEY;
-  if (!signingKey) return true; // skip if not configured
-  const sig = req.headers.get("x-alchemy-signature");
-  if (!sig) return false;
-  const hmac = crypto.createHmac("sha256", signingKey).update(raw).digest("hex");
-  return sig === hmac;
+// Plan mode: ?dryRun=1 or {"dryRun": true} → compute and diff, write nothing
+function isDryRun(raw: string, req: NextRequest) {
+  const q = req.nextUrl.searchParams.get("dryRun");
+  if (q !== null) return q === "" || q === "1" || q === "true";
+  try {
+    const body = JSON.parse(raw) as { dryRun?: unknown };
+    return body?.dryRun === true;
+  } catch {
+    return false;
+  }
 }
 
 export async function POST(req: NextRequest) {
+  const tooMany = await limited(req);
+  if (tooMany) return tooMany;
+
   // Read raw body for signature verification
   const raw = await req.text();
 
-  if (!verifyBearer(req) && !verifyAlchemySignature(raw, req)) {
-    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  const auth = await authenticate(raw, req);
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
   }
 
+  // Set once this delivery's id is recorded; released again unless the rebuild applies it
+  let deliveryId: string | undefined;
+
   try {
-    const res = await rebuildAndPush();
+    const dryRun = isDryRun(raw, req);
+
+    // Alchemy deliveries carry the mint logs; use them instead of rescanning
+    const nft = process.env.NEXT_PUBLIC_NFT_ADDRESS;
+    const webhook = auth.caller === "alchemy" && nft ? parseAlchemyWebhook(raw, nft) : undefined;
+    if (webhook?.eventId && !dryRun) {
+      if (!(await rememberWebhookEvent(webhook.eventId))) {
+        return NextResponse.json({ ok: true, duplicate: true, eventId: webhook.eventId });
+      }
+      deliveryId = webhook.eventId;
+    }
+
+    const res = await rebuildAndPush({
+      dryRun,
+      webhook: webhook?.complete ? { mints: webhook.mints, removed: webhook.removed } : undefined,
+    });
+
+    // Not applied: forget the id and answer non-2xx so Alchemy delivers it again
+    if (deliveryId && (!res.ok || res.reason === "in-progress")) {
+      await forgetWebhookEvent(deliveryId);
+      const busy = res.reason === "in-progress";
+      return NextResponse.json(res, { status: busy ? 503 : 500, headers: busy ? { "Retry-After": "30" } : undefined });
+    }
+    if (!dryRun && res.solvency && res.solvency.status !== "ok") {
+      await postAlert(`Distributor ${res.solvency.status} for round ${res.round}`, {
+        balance: res.solvency.balance,
+        required: res.solvency.required,
+        shortfall: res.solvency.shortfall,
+        token: res.solvency.token,
+        published: res.reason !== "underfunded",
+      });
+    }
     return NextResponse.json(res);
   } catch (e) {
+    if (deliveryId) await forgetWebhookEvent(deliveryId).catch(() => {});
     const message =
     e instanceof Error ? e.message :
     typeof e === "string" ? e :
@@ -42,7 +93,19 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// Allow GET too (for manual tests)
+// Read-only status: never triggers a rebuild
 export async function GET(req: NextRequest) {
-  return POST(req);
+  const tooMany = await limited(req);
+  if (tooMany) return tooMany;
+
+  try {
+    const [index, indexer] = await Promise.all([readRoundIndex(), loadIndexerState()]);
+    return NextResponse.json({
+      ok: true,
+      latest: index.rounds[0] ?? null,
+      indexedTo: indexer?.lastBlock ?? null,
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
 }
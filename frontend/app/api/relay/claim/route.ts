@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { callerKey } from "@/lib/auth";
+import { rateLimit } from "@/lib/ratelimit";
+import { errorMessage } from "@/lib/rebuild";
+import { parseClaimRequest, relayClaim } from "@/lib/relayer";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RATE_LIMIT = Number(process.env.RELAY_RATE_LIMIT ?? 5);
+const RATE_WINDOW_MS = Number(process.env.RELAY_RATE_WINDOW_SECONDS ?? 60) * 1000;
+
+function tooMany(resetAt: number) {
+  return NextResponse.json(
+    { ok: false, error: "rate limited" },
+    { status: 429, headers: { "Retry-After": String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))) } }
+  );
+}
+
+// POST /api/relay/claim {request, signature} → submits claim() for a signed ClaimRequest
+// from the relayer wallet. Limited per caller IP and per account, and by the per-round budget.
+export async function POST(req: NextRequest) {
+  const byIp = await rateLimit(`relay:ip:${callerKey(req)}`, RATE_LIMIT, RATE_WINDOW_MS);
+  if (!byIp.ok) return tooMany(byIp.resetAt);
+
+  let body: { request?: unknown; signature?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "invalid JSON" }, { status: 400 });
+  }
+  const request = parseClaimRequest(body?.request);
+  if (!request || typeof body.signature !== "string") {
+    return NextResponse.json({ ok: false, error: "invalid claim request" }, { status: 400 });
+  }
+
+  const byAccount = await rateLimit(`relay:account:${request.account.toLowerCase()}`, RATE_LIMIT, RATE_WINDOW_MS);
+  if (!byAccount.ok) return tooMany(byAccount.resetAt);
+
+  try {
+    const res = await relayClaim(request, body.signature);
+    if (res.ok) return NextResponse.json(res, { status: res.status === "mined" ? 200 : 202 });
+    return NextResponse.json(
+      { ok: false, error: res.error, ...(res.code ? { code: res.code } : {}) },
+      { status: res.status, headers: res.retryAfter ? { "Retry-After": String(res.retryAfter) } : undefined }
+    );
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: errorMessage(e) }, { status: 500 });
+  }
+}
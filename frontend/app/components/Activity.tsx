@@ -0,0 +1,358 @@
+"use client";
+
+import * as React from "react";
+import { useAccount, usePublicClient, useWriteContract } from "wagmi";
+import { sepolia } from "wagmi/chains";
+import type { TransactionReceipt } from "viem";
+import {
+  activityKey,
+  addActivity,
+  KIND_LABELS,
+  loadActivity,
+  repriceActivity,
+  saveActivity,
+  serializeArgs,
+  updateActivity,
+  type Activity,
+  type ActivityKind,
+  type ActivityStatus,
+} from "@/lib/activity";
+import { Spinner } from "@/app/components/Helpers";
+import type { WriteRequest } from "@/app/components/PreparedWrite";
+
+// Activity center: every submitted tx is stored per account and chain (lib/activity.ts),
+// followed to a receipt by a watcher that survives reloads, announced with toasts and
+// listed in a drawer opened from the NavBar.
+
+type Toast = { id: number; title: string; text: string; tone: "info" | "success" | "error" };
+
+type TrackInput = { hash: `0x${string}`; kind: ActivityKind; label: string; args?: readonly unknown[] };
+
+type ActivityContextValue = {
+  items: Activity[];
+  track: (input: TrackInput) => void;
+  clear: () => void;
+};
+
+const ActivityContext = React.createContext<ActivityContextValue>({ items: [], track: () => {}, clear: () => {} });
+
+// Checks for a dropped or replaced tx that viem's receipt polling cannot see on its own
+const CHECK_MS = 15_000;
+// Unknown to the node for this long, with no later nonce used: treat it as dropped
+const DROPPED_AFTER_MS = 60 * 60 * 1000;
+const TOAST_MS = 6_000;
+
+export function useActivity() {
+  return React.useContext(ActivityContext);
+}
+
+// useWriteContract plus tracking: send() resolves to the hash, or undefined when the wallet
+// or node refused (the hook's `error` has the reason, as with writeContract)
+export function useTrackedWrite() {
+  const write = useWriteContract();
+  const { track } = useActivity();
+  const { writeContractAsync } = write;
+  const send = React.useCallback(
+    async (request: WriteRequest, kind: ActivityKind, label: string) => {
+      try {
+        const hash = await writeContractAsync(request);
+        track({ hash, kind, label, args: (request as { args?: readonly unknown[] }).args });
+        return hash;
+      } catch {
+        return undefined;
+      }
+    },
+    [writeContractAsync, track]
+  );
+  return { ...write, send };
+}
+
+export function ActivityProvider({ children }: { children: React.ReactNode }) {
+  const { address, chainId } = useAccount();
+  const key = address && chainId ? activityKey(address, chainId) : undefined;
+  const [state, setState] = React.useState<{ key?: string; items: Activity[] }>({ items: [] });
+  const [toasts, setToasts] = React.useState<Toast[]>([]);
+  const toastId = React.useRef(0);
+
+  React.useEffect(() => {
+    setState({ key, items: key ? loadActivity(key) : [] });
+  }, [key]);
+
+  React.useEffect(() => {
+    if (state.key) saveActivity(state.key, state.items);
+  }, [state]);
+
+  // Other tabs write the same key
+  React.useEffect(() => {
+    if (!key) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === key) setState({ key, items: loadActivity(key) });
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [key]);
+
+  const toast = React.useCallback((title: string, text: string, tone: Toast["tone"]) => {
+    const id = ++toastId.current;
+    setToasts((t) => [...t, { id, title, text, tone }]);
+    setTimeout(() => setToasts((t) => t.filter((x) => x.id !== id)), TOAST_MS);
+  }, []);
+
+  const update = React.useCallback((fn: (items: Activity[]) => Activity[]) => {
+    setState((s) => ({ ...s, items: fn(s.items) }));
+  }, []);
+
+  const track = React.useCallback(
+    ({ hash, kind, label, args }: TrackInput) => {
+      if (!address || !chainId) return;
+      const now = Date.now();
+      update((items) =>
+        addActivity(items, { hash, kind, label, args: serializeArgs(args), chainId, account: address, status: "pending", submittedAt: now, updatedAt: now })
+      );
+      toast(label, "Submitted, waiting for confirmation…", "info");
+    },
+    [address, chainId, update, toast]
+  );
+
+  const clear = React.useCallback(() => update((items) => items.filter((a) => a.status === "pending")), [update]);
+
+  const onReceipt = React.useCallback(
+    (item: Activity, receipt: TransactionReceipt) => {
+      const ok = receipt.status === "success";
+      update((items) =>
+        updateActivity(items, item.hash, {
+          status: ok ? "confirmed" : "failed",
+          blockNumber: Number(receipt.blockNumber),
+          ...(ok ? {} : { error: "Transaction reverted" }),
+        })
+      );
+      toast(item.label, ok ? "Confirmed." : "Reverted on-chain.", ok ? "success" : "error");
+    },
+    [update, toast]
+  );
+
+  const onSpeedUp = React.useCallback(
+    (item: Activity, to: `0x${string}`) => {
+      update((items) => repriceActivity(items, item.hash, to));
+      toast(item.label, "Sped up; following the new transaction.", "info");
+    },
+    [update, toast]
+  );
+
+  const onGone = React.useCallback(
+    (item: Activity, status: Extract<ActivityStatus, "replaced" | "failed">, error: string) => {
+      update((items) => updateActivity(items, item.hash, { status, error }));
+      toast(item.label, error, "error");
+    },
+    [update, toast]
+  );
+
+  const onSeen = React.useCallback(
+    (item: Activity, from: `0x${string}`, nonce: number) => update((items) => updateActivity(items, item.hash, { from, nonce })),
+    [update]
+  );
+
+  const value = React.useMemo(() => ({ items: state.items, track, clear }), [state.items, track, clear]);
+
+  return (
+    <ActivityContext.Provider value={value}>
+      {children}
+      {state.items
+        .filter((a) => a.status === "pending")
+        .map((a) => (
+          <PendingWatcher key={a.hash} item={a} onReceipt={onReceipt} onSpeedUp={onSpeedUp} onGone={onGone} onSeen={onSeen} />
+        ))}
+      <Toasts toasts={toasts} />
+    </ActivityContext.Provider>
+  );
+}
+
+function PendingWatcher({
+  item,
+  onReceipt,
+  onSpeedUp,
+  onGone,
+  onSeen,
+}: {
+  item: Activity;
+  onReceipt: (item: Activity, receipt: TransactionReceipt) => void;
+  onSpeedUp: (item: Activity, to: `0x${string}`) => void;
+  onGone: (item: Activity, status: "replaced" | "failed", error: string) => void;
+  onSeen: (item: Activity, from: `0x${string}`, nonce: number) => void;
+}) {
+  const client = usePublicClient({ chainId: item.chainId });
+  // The latest item, without restarting the watch every time a field changes
+  const latest = React.useRef(item);
+  latest.current = item;
+  // The receipt wait and the periodic check can both see the end; only the first one reports it
+  const settled = React.useRef(false);
+  const settle = React.useCallback((fn: () => void) => {
+    if (settled.current) return;
+    settled.current = true;
+    fn();
+  }, []);
+
+  // Receipt, including viem's replacement detection while the original tx is known to the node
+  React.useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+    client
+      .waitForTransactionReceipt({
+        hash: item.hash,
+        timeout: 0,   // a slow tx stays pending; the check below decides when it is gone
+        onReplaced: (r) => {
+          if (cancelled) return;
+          if (r.reason === "repriced") {
+            cancelled = true;   // the entry moves to the new hash, which gets its own watcher
+            settle(() => onSpeedUp(latest.current, r.transaction.hash));
+          } else {
+            cancelled = true;
+            settle(() => onGone(latest.current, "replaced", r.reason === "cancelled" ? "Cancelled in the wallet." : "Replaced by another transaction."));
+          }
+        },
+      })
+      .then((receipt) => {
+        if (!cancelled) settle(() => onReceipt(latest.current, receipt));
+      })
+      .catch(() => {
+        // RPC trouble: the periodic check below still picks up the receipt
+      });
+    return () => { cancelled = true; };
+  }, [client, item.hash, settle, onReceipt, onSpeedUp, onGone]);
+
+  // Backstop for the wait above: a receipt it missed, and a tx that vanished before this
+  // tab (re)loaded, which viem cannot classify because it never saw the original
+  React.useEffect(() => {
+    if (!client) return;
+    const check = async () => {
+      if (settled.current) return;
+      const cur = latest.current;
+      const receipt = await client.getTransactionReceipt({ hash: cur.hash }).catch(() => undefined);
+      if (receipt) {
+        settle(() => onReceipt(cur, receipt));
+        return;
+      }
+      const tx = await client.getTransaction({ hash: cur.hash }).catch(() => undefined);
+      if (tx) {
+        if (cur.nonce === undefined) onSeen(cur, tx.from, tx.nonce);
+        return;
+      }
+      if (cur.from && cur.nonce !== undefined) {
+        const used = await client.getTransactionCount({ address: cur.from, blockTag: "latest" }).catch(() => undefined);
+        if (used !== undefined && used > cur.nonce) settle(() => onGone(cur, "replaced", "Replaced by another transaction."));
+      } else if (Date.now() - cur.submittedAt > DROPPED_AFTER_MS) {
+        settle(() => onGone(cur, "failed", "Dropped: the network no longer knows this transaction."));
+      }
+    };
+    const id = setInterval(check, CHECK_MS);
+    void check();
+    return () => clearInterval(id);
+  }, [client, item.hash, settle, onReceipt, onGone, onSeen]);
+
+  return null;
+}
+
+function Toasts({ toasts }: { toasts: Toast[] }) {
+  if (toasts.length === 0) return null;
+  const tones = {
+    info: "border-indigo-500/30 text-indigo-200",
+    success: "border-emerald-500/30 text-emerald-200",
+    error: "border-red-500/30 text-red-200",
+  } as const;
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex w-80 flex-col gap-2" role="status" aria-live="polite">
+      {toasts.map((t) => (
+        <div key={t.id} className={`rounded-xl border bg-zinc-900/95 px-4 py-3 text-sm shadow-2xl ${tones[t.tone]}`}>
+          <p className="font-semibold">{t.title}</p>
+          <p className="text-zinc-400">{t.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function shortHash(hash: string) {
+  return `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+}
+
+function ActivityBadge({ status }: { status: ActivityStatus }) {
+  const map = {
+    pending:   { text: "Pending",   cls: "bg-amber-100 text-amber-800" },
+    confirmed: { text: "Confirmed", cls: "bg-emerald-100 text-emerald-800" },
+    failed:    { text: "Failed",    cls: "bg-red-100 text-red-800" },
+    replaced:  { text: "Replaced",  cls: "bg-gray-100 text-gray-700" },
+  } as const;
+  const { text, cls } = map[status];
+  return <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${cls}`}>{text}</span>;
+}
+
+// NavBar button with the pending count; opens the activity drawer
+export function ActivityButton() {
+  const { items, clear } = useActivity();
+  const { chain } = useAccount();
+  const [open, setOpen] = React.useState(false);
+  const pending = items.filter((a) => a.status === "pending").length;
+  const explorer = (chain ?? sepolia).blockExplorers?.default.url;
+
+  return (
+    <>
+      <button
+        className="relative inline-flex items-center gap-2 rounded border px-3 py-2 text-sm hover:bg-gray-100"
+        onClick={() => setOpen(true)}
+        aria-label="Open activity"
+      >
+        {pending > 0 && <Spinner />}
+        Activity
+        {pending > 0 && (
+          <span className="rounded-full bg-black px-1.5 text-xs font-semibold text-white">{pending}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-[55]" role="dialog" aria-label="Activity">
+          <div className="absolute inset-0 bg-black/30" onClick={() => setOpen(false)} />
+          <aside className="absolute right-0 top-0 flex h-full w-full max-w-sm flex-col bg-white shadow-2xl">
+            <div className="flex items-center justify-between border-b p-4">
+              <h2 className="text-base font-semibold">Activity</h2>
+              <div className="flex items-center gap-2">
+                <button className="rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100" onClick={clear}>
+                  Clear finished
+                </button>
+                <button className="rounded border px-2 py-1 text-sm" onClick={() => setOpen(false)} aria-label="Close activity">
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <ul className="flex-1 divide-y overflow-y-auto">
+              {items.length === 0 && <li className="p-4 text-sm text-gray-500">No transactions yet.</li>}
+              {items.map((a) => (
+                <li key={a.hash} className="space-y-1 p-4 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{a.label}</span>
+                    <ActivityBadge status={a.status} />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {KIND_LABELS[a.kind]} · {new Date(a.submittedAt).toLocaleString()}
+                    {a.blockNumber !== undefined && <> · block {a.blockNumber}</>}
+                  </p>
+                  <p className="font-mono text-xs">
+                    {explorer ? (
+                      <a href={`${explorer}/tx/${a.hash}`} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">
+                        {shortHash(a.hash)}
+                      </a>
+                    ) : shortHash(a.hash)}
+                  </p>
+                  {a.speedUps && a.speedUps.length > 0 && (
+                    <p className="text-xs text-gray-500">Sped up {a.speedUps.length}× (was {shortHash(a.speedUps[0])})</p>
+                  )}
+                  {a.error && <p className="text-xs text-red-600">{a.error}</p>}
+                </li>
+              ))}
+            </ul>
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
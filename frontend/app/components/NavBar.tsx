@@ -4,10 +4,12 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState } from "react";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { ActivityButton } from "@/app/components/Activity";
 
 const links = [
   { href: "/nft", label: "NFT" },
   { href: "/token/claim", label: "Claim" },
+  { href: "/token/rewards", label: "My rewards" },
   { href: "/token/stake", label: "Stake" },
 ];
 
@@ -41,6 +43,7 @@ export default function NavBar() {
         </nav>
 
         <div className="flex items-center gap-2">
+          <ActivityButton />
           <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false} />
           <button
             className="md:hidden rounded border px-3 py-2 text-sm"
@@ -0,0 +1,106 @@
+"use client";
+
+import * as React from "react";
+import { useAccount, useEstimateFeesPerGas, useEstimateGas, useSimulateContract, useWriteContract } from "wagmi";
+import { encodeFunctionData, formatEther, type Abi } from "viem";
+import { translateError, type FriendlyError } from "@/lib/contractErrors";
+
+// Every write goes through simulateContract first. A call that would revert never reaches
+// the wallet: the button is disabled and `blocked` explains why. A call that would succeed
+// comes with its gas estimate, priced at the current max fee. Simulations go stale as
+// blocks arrive (round rollover, cooldowns, supply), so they are repeated about once a
+// block, and fresh() repeats one more time right before the wallet is asked.
+
+export type WriteCall = {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+};
+
+// What writeContract / writeContractAsync take
+export type WriteRequest = Parameters<ReturnType<typeof useWriteContract>["writeContract"]>[0];
+
+export type PreparedWrite = {
+  request?: WriteRequest;
+  blocked?: FriendlyError;
+  simulating: boolean;
+  gas?: bigint;
+  cost?: bigint;     // wei: gas × maxFeePerGas
+  refetch: () => void;
+  // Re-simulates now; the request to send, or undefined when the call would now revert
+  fresh: () => Promise<WriteRequest | undefined>;
+};
+
+// About one Sepolia block: a successful simulation is only good for the block it ran on
+const REFRESH_MS = 12_000;
+// While blocked, re-simulate now and then: cooldowns end and allowances change
+const BLOCKED_RETRY_MS = 30_000;
+
+// call undefined → nothing to simulate yet (not connected, inputs incomplete, ...)
+export function usePreparedWrite(call: WriteCall | undefined): PreparedWrite {
+  const { address: account } = useAccount();
+  const enabled = !!call && !!account;
+
+  const sim = useSimulateContract({
+    ...call,
+    account,
+    query: { enabled, retry: false, refetchInterval: (q) => (q.state.error ? BLOCKED_RETRY_MS : REFRESH_MS) },
+  } as Parameters<typeof useSimulateContract>[0]);
+
+  const data = React.useMemo(
+    () => (call ? encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }) : undefined),
+    [call]
+  );
+  const { data: gas } = useEstimateGas({
+    account,
+    to: call?.address,
+    data,
+    value: call?.value,
+    query: { enabled: enabled && !!sim.data },
+  });
+  const { data: fees } = useEstimateFeesPerGas({ query: { enabled: enabled && !!sim.data } });
+  const price = fees?.maxFeePerGas ?? fees?.gasPrice;
+
+  const { refetch: refetchSim } = sim;
+  const refetch = React.useCallback(() => { void refetchSim(); }, [refetchSim]);
+  const fresh = React.useCallback(async () => {
+    const r = await refetchSim();
+    // a failed refetch keeps the previous data around; it must not be sent
+    if (r.isError || !r.data) return undefined;
+    return (r.data as { request: unknown }).request as WriteRequest;
+  }, [refetchSim]);
+  return {
+    request: enabled && sim.data ? ((sim.data as { request: unknown }).request as WriteRequest) : undefined,
+    blocked: enabled && sim.error ? translateError(sim.error) : undefined,
+    simulating: enabled && sim.isFetching && !sim.data,
+    gas: enabled && sim.data ? gas : undefined,
+    cost: enabled && sim.data && gas !== undefined && price !== undefined ? gas * price : undefined,
+    refetch,
+    fresh,
+  };
+}
+
+function fmtEth(wei: bigint) {
+  const n = Number(formatEther(wei));
+  return n === 0 ? "0" : n < 0.000001 ? "<0.000001" : n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+// "≈ 0.00012 ETH gas", or why the action is unavailable
+export function WriteHint({ prepared, className = "" }: { prepared: PreparedWrite; className?: string }) {
+  if (prepared.blocked) {
+    return (
+      <p className={`text-xs text-amber-300 ${className}`} title={prepared.blocked.detail}>
+        {prepared.blocked.title}{prepared.blocked.action ? ` ${prepared.blocked.action}` : ""}
+      </p>
+    );
+  }
+  if (prepared.simulating) return <p className={`text-xs text-zinc-500 ${className}`}>Checking…</p>;
+  if (prepared.cost === undefined) return null;
+  return (
+    <p className={`text-xs text-zinc-500 ${className}`} title={prepared.gas !== undefined ? `${prepared.gas} gas` : undefined}>
+      ≈ {fmtEth(prepared.cost)} ETH gas
+    </p>
+  );
+}
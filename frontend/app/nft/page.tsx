@@ -3,7 +3,11 @@ import { useEffect, useState, useMemo } from "react";
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from "wagmi";
 import abi from "../../abi/MRTNFToken.json";
 import NFTGrid from "../components/NFTGrid";
-import { EmptyState } from "@/app/components/Helpers";
+import { Banner, EmptyState } from "@/app/components/Helpers";
+import { friendlyMessage } from "@/lib/contractErrors";
+import { usePreparedWrite, WriteHint } from "@/app/components/PreparedWrite";
+import { useActivity } from "@/app/components/Activity";
+import type { Abi } from "viem";
 
 const addr = process.env.NEXT_PUBLIC_NFT_ADDRESS as `0x${string}`;
 
@@ -15,6 +19,7 @@ export default function Page() {
   const { data: supply } = useReadContract({ address: addr, abi, functionName: "totalSupply" });
   
   const { writeContractAsync, data: txHash } = useWriteContract();
+  const { track } = useActivity();
   const { isLoading: isPending, isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
 
   const { data: balance, refetch: refetchBalance } = useReadContract({
@@ -26,6 +31,7 @@ export default function Page() {
     });
 
   const [nftRefreshKey, setNftRefreshKey] = useState(0);
+  const [mintError, setMintError] = useState<string | null>(null);
 
   // Retrieve data to determine if eligible to mint or not (ie still in cooldown or not)
   const { data: lastMint, refetch: refetchLastMint } = useReadContract({
@@ -57,14 +63,29 @@ export default function Page() {
 
   const cost = useMemo(() => price ? (BigInt(price as string) * BigInt(qty)).toString() : "0", [price, qty]);
 
+  // Simulated first: cooldown, sold out and pause block the button instead of the wallet
+  const mintCall = useMemo(
+    () => price ? { address: addr, abi: abi as Abi, functionName: "mint", args: [BigInt(qty)], value: BigInt(cost) } : undefined,
+    [price, qty, cost]
+  );
+  const prepared = usePreparedWrite(isConnected ? mintCall : undefined);
+  const { refetch: refetchMintSim } = prepared;
+
+  useEffect(() => {
+    if (isSuccess) refetchMintSim();
+  }, [isSuccess, refetchMintSim]);
+
   async function onMint() {
-    await writeContractAsync({
-      address: addr,
-      abi,
-      functionName: "mint",
-      args: [BigInt(qty)],
-      value: BigInt(cost),
-    });
+    if (!prepared.request) return;
+    setMintError(null);
+    try {
+      const request = await prepared.fresh();
+      if (!request) return;   // would revert now; WriteHint shows why
+      const hash = await writeContractAsync(request);
+      track({ hash, kind: "mint", label: `Mint ${qty} NFT${qty === 1 ? "" : "s"}`, args: [qty] });
+    } catch (e) {
+      setMintError(friendlyMessage(e));
+    }
   }
 
   return (
@@ -123,7 +144,7 @@ export default function Page() {
                     className="w-24 rounded-xl border border-zinc-700 bg-zinc-900 px-3 py-2 text-right font-mono text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
                   />
                   <button
-                    disabled={!price || isPending || !canMint}
+                    disabled={!price || isPending || !canMint || !prepared.request}
                     onClick={onMint}
                     className="inline-flex items-center justify-center gap-2 rounded-xl px-5 py-2.5 text-sm font-semibold text-white shadow-sm disabled:opacity-60 bg-gradient-to-r from-indigo-500 to-fuchsia-600 hover:from-indigo-400 hover:to-fuchsia-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
                     aria-busy={isPending}
@@ -133,6 +154,14 @@ export default function Page() {
                   </button>
                 </div>
 
+                <WriteHint prepared={prepared} />
+
+                {mintError && (
+                  <Banner tone="error">
+                    <b>Error:</b> {mintError}
+                  </Banner>
+                )}
+
                 <p className="text-sm text-zinc-400">
                   Total cost:{" "}
                   <span className="font-mono text-zinc-200">
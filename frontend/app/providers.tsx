@@ -5,6 +5,7 @@ import { getDefaultConfig, RainbowKitProvider } from "@rainbow-me/rainbowkit";
 import { WagmiProvider, http } from "wagmi";
 import { sepolia } from "wagmi/chains";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ActivityProvider } from "@/app/components/Activity";
 
 const config = getDefaultConfig({
   appName: "MRTNFT Mint",
@@ -22,7 +23,9 @@ export default function Providers({ children }: { children: React.ReactNode }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider>{children}</RainbowKitProvider>
+        <RainbowKitProvider>
+          <ActivityProvider>{children}</ActivityProvider>
+        </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
   );
@@ -3,8 +3,9 @@
 import * as React from "react";
 import {
   useAccount,
+  useChainId,
   useReadContract,
-  useWriteContract,
+  useSignTypedData,
   useWaitForTransactionReceipt,
 } from "wagmi";
 import type { Abi } from "viem";
@@ -12,8 +13,16 @@ import {
   formatUnits,
 } from "viem";
 import DistributorAbi from "@/abi/MerkleDistributor.json";
-import { BaseError } from "viem";
+import CumulativeDistributorAbi from "@/abi/CumulativeMerkleDistributor.json";
 import { EmptyState, Spinner, Stat, Banner, SkeletonBlock } from "@/app/components/Helpers";
+import type { ProofsPayload } from "@/lib/merkle";
+import type { RewardBreakdown } from "@/lib/rewards";
+import { friendlyMessage, translateCode } from "@/lib/contractErrors";
+import { usePreparedWrite, WriteHint } from "@/app/components/PreparedWrite";
+import { useActivity, useTrackedWrite } from "@/app/components/Activity";
+import { claimWindow, formatCountdown, type ClaimWindow } from "@/lib/claimWindow";
+import { roundOf } from "@/lib/rounds";
+import { CLAIM_REQUEST_TYPES, checkClaimProof, checkPayload, relayDomain, type ClaimRequest, type ProofsHeader } from "@/lib/signing";
 
 function fmtAmount(base: string, decimals: number, maxFrac = 6): string {
   const s = formatUnits(BigInt(base), decimals);
@@ -22,85 +31,249 @@ function fmtAmount(base: string, decimals: number, maxFrac = 6): string {
   return f2 ? `${i}.${f2}` : i;
 }
 
-function getErrorMessage(e: unknown): string {
-  if (!e) return "";
-  // Viem/Wagmi errors
-  if (e instanceof BaseError) return e.shortMessage || e.message;
-  // Standard Error
-  if (e instanceof Error) return e.message;
-  // Plain object with message/shortMessage
-  if (typeof e === "object") {
-    const any = e as { message?: unknown; shortMessage?: unknown };
-    if (typeof any.shortMessage === "string") return any.shortMessage;
-    if (typeof any.message === "string") return any.message;
-  }
-  // Fallback
-  return String(e);
+// "3 NFTs × 5 MRT × 1.5 = 22.5 MRT, capped at 20 MRT"
+function explainReward(r: RewardBreakdown, decimals: number): string {
+  const unit = `${fmtAmount(r.unit, decimals)} MRT`;
+  const parts = [r.units === r.count && r.count !== 1 ? `${r.count} NFTs × ${unit}` : unit];
+  if (r.multiplierBps !== 10_000) parts.push(`${r.multiplierBps / 10_000}`);
+  let text = `${parts.join(" × ")} = ${fmtAmount(r.uncapped, decimals)} MRT`;
+  if (r.amount !== r.uncapped) text += `, capped at ${fmtAmount(r.amount, decimals)} MRT`;
+  return text;
 }
 
-type ClaimEntry = { account: `0x${string}`; amount: string; proof: `0x${string}`[] };
-type ProofsFile = { round: number; root: `0x${string}`; claims: ClaimEntry[] };
+type ClaimEntry = ProofsPayload["claims"][number];
+type ProofsFile = ProofsPayload;
+// GET /api/claims/proof: the payload header plus this account's claim only
+type ProofResponse = ProofsHeader & { eligible: boolean; claim: ClaimEntry | null };
+
+const PROOF_API = "/api/claims/proof";
 
+// Fallback when the proof endpoint is unavailable. Same source the builder publishes to: a public base URL when the store has one,
+// otherwise the API route that reads the configured store
 const FILE_PATH =
-  process.env.NEXT_PUBLIC_CLAIMS_URL ?? "/claims/current.json";
+  process.env.NEXT_PUBLIC_CLAIMS_URL ??
+  (process.env.NEXT_PUBLIC_CLAIMS_BASE_URL
+    ? `${process.env.NEXT_PUBLIC_CLAIMS_BASE_URL.replace(/\/+$/, "")}/claims/current.json`
+    : "/api/claims/current");
 console.log("[claim] FILE_PATH =", FILE_PATH);
 const DISTRIBUTOR = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}`;
+// Who must have signed the proofs file; defaults to the distributor owner (the setRoot key)
+const PUBLISHER = process.env.NEXT_PUBLIC_PUBLISHER_ADDRESS as `0x${string}` | undefined;
 const TOKEN = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as `0x${string}`;
+// Gasless claims go through /api/relay/claim; the server needs RELAYER_PRIVATE_KEY as well
+const RELAY_API = "/api/relay/claim";
+const RELAYER_ENABLED = !!process.env.NEXT_PUBLIC_RELAYER_ENABLED;
+// How long a signed claim request stays valid
+const RELAY_DEADLINE_SECONDS = 10 * 60;
+// How often round() is re-read while waiting for the next root
+const ROOT_POLL_MS = 15_000;
 
 const erc20Abi = [
   { name: "decimals", stateMutability: "view", type: "function", inputs: [], outputs: [{ type: "uint8" }] },
   { name: "balanceOf", stateMutability: "view", type: "function", inputs: [{ name: "a", type: "address" }], outputs: [{ type: "uint256" }] },
 ] as const satisfies Abi;
 
+function ClaimWindowBanner({ info }: { info: ClaimWindow }) {
+  switch (info.status) {
+    case "pending":
+      return (
+        <Banner tone="info">
+          Proofs for round {info.fileRound} are ready, waiting for the distributor to publish their root
+          (on-chain round {info.onchainRound}). This page checks again every few seconds.
+        </Banner>
+      );
+    case "expired":
+      return (
+        <Banner tone="info">
+          Round {info.fileRound} has ended; the distributor is on round {info.onchainRound}. Loading the newer proofs…
+        </Banner>
+      );
+    case "expiring":
+      return (
+        <Banner tone="error">
+          {info.overdue
+            ? <>Round {info.fileRound} is over. Its proofs stay valid only until the next root is published, which can happen at any moment. Claim now.</>
+            : <>Round {info.fileRound} ends in <b className="font-mono">{formatCountdown(info.secondsLeft ?? 0)}</b>. Unclaimed rewards expire when the next root is published.</>}
+        </Banner>
+      );
+    case "claimable":
+      return info.endsAt === undefined ? null : (
+        <p className="text-xs text-zinc-500">
+          Round {info.fileRound} claim window: <span className="font-mono text-zinc-300">{formatCountdown(info.secondsLeft ?? 0)}</span> left.
+        </p>
+      );
+  }
+}
+
 export default function ClaimPage() {
   const { address } = useAccount();
 
-  const [proofs, setProofs] = React.useState<ProofsFile | null>(null);
+  const [proofs, setProofs] = React.useState<ProofsHeader | null>(null);
   const [entry, setEntry] = React.useState<ClaimEntry | null>(null);
+  const [file, setFile] = React.useState<ProofsFile | null>(null); // only set on the fallback path
+  const [reload, setReload] = React.useState(0); // bump to fetch the proofs again
+
+  // Ticks every second for the countdown; the hour changing refetches everything below
+  const [now, setNow] = React.useState(() => Math.floor(Date.now() / 1000));
+  React.useEffect(() => {
+    const id = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(id);
+  }, []);
+  const clockRound = roundOf(now);
 
-  // Fetch JSON (cache-busted) and log basics
+  // Ask the API for this account's proof; download the whole file only if that fails
   React.useEffect(() => {
+    if (!address) { setProofs(null); setEntry(null); setFile(null); return; }
+    let cancelled = false;
     (async () => {
+      try {
+        const r = await fetch(`${PROOF_API}?account=${address}`);
+        if (r.ok) {
+          const j: ProofResponse = await r.json();
+          if (cancelled) return;
+          console.log("[claim] proof api root:", j.root, "round:", j.round, "eligible:", j.eligible);
+          setProofs(j);
+          setEntry(j.claim);
+          setFile(null);
+          return;
+        }
+        console.warn(`[claim] ${PROOF_API} → HTTP ${r.status}, falling back to ${FILE_PATH}`);
+      } catch (e) {
+        console.warn(`[claim] ${PROOF_API} failed, falling back to ${FILE_PATH}`, e);
+      }
+
       try {
         const url = `${FILE_PATH}?v=${Date.now()}`;
         console.log("[claim] fetching file:", url);
         const r = await fetch(url, { cache: "no-store" });
         if (!r.ok) {
           console.error(`[claim] ${url} → HTTP ${r.status}`);
-          setProofs(null);
+          if (!cancelled) { setProofs(null); setEntry(null); setFile(null); }
           return;
         }
         const j: ProofsFile = await r.json();
+        if (cancelled) return;
         console.log("[claim] file root:", j.root);
         console.log("[claim] claims count:", j.claims.length);
+        const me = j.claims.find(c => c.account.toLowerCase() === address.toLowerCase()) || null;
+        console.log("[claim] connected:", address, "→ entry:", me ? { ...me, proofLen: me.proof.length } : null);
         setProofs(j);
+        setEntry(me);
+        setFile(j);
       } catch (e) {
         console.error("[claim] failed to load proofs file", e);
-        setProofs(null);
+        if (!cancelled) { setProofs(null); setEntry(null); setFile(null); }
       }
     })();
-  }, []);
+    return () => { cancelled = true; };
+  }, [address, reload]);
 
   // On-chain reads
   const { data: decimals } = useReadContract({ address: TOKEN, abi: erc20Abi, functionName: "decimals" });
-  const { data: onchainRoot } = useReadContract({
-    address: DISTRIBUTOR, abi: DistributorAbi as Abi, functionName: "merkleRoot",
+  // Polled while the file is ahead of the chain or the hour is over, i.e. while a setRoot is due
+  const [awaitingRoot, setAwaitingRoot] = React.useState(false);
+  const rootQuery = { refetchInterval: awaitingRoot ? ROOT_POLL_MS : (false as const) };
+  const { data: onchainRoot, refetch: refetchRoot } = useReadContract({
+    address: DISTRIBUTOR, abi: DistributorAbi as Abi, functionName: "merkleRoot", query: rootQuery,
   });
-  const { data: isClaimed, refetch: refetchIsClaimed } = useReadContract({
+  const { data: onchainRound, refetch: refetchRound } = useReadContract({
+    address: DISTRIBUTOR, abi: DistributorAbi as Abi, functionName: "round", query: rootQuery,
+  });
+  const { data: owner } = useReadContract({
+    address: DISTRIBUTOR, abi: DistributorAbi as Abi, functionName: "owner", query: { enabled: !PUBLISHER },
+  });
+
+  const signer = PUBLISHER ?? (owner as `0x${string}` | undefined);
+
+  // Only offer a claim when the file is signed by the publisher, hashes to its root,
+  // and that root is the one the distributor currently holds. No signer yet means no check.
+  const check = React.useMemo(() => {
+    if (!proofs || !entry || !signer || onchainRoot === undefined || onchainRound === undefined) return undefined;
+    const expectations = {
+      distributor: DISTRIBUTOR,
+      signer,
+      onchainRoot: onchainRoot as `0x${string}`,
+      onchainRound: onchainRound as bigint,
+    };
+    // the whole file can be re-hashed; a single proof is checked against the signed root
+    const result = file ? checkPayload(file, expectations) : checkClaimProof(proofs, entry, expectations);
+    if (result.status !== "ok") console.warn("[claim] payload check:", result);
+    return result;
+  }, [proofs, entry, file, signer, onchainRoot, onchainRound]);
+  const untrusted = check?.status === "stale" || check?.status === "tampered";
+
+  const roundWindow = React.useMemo(
+    () => (proofs && onchainRound !== undefined ? claimWindow(proofs.round, onchainRound as bigint, proofs.mode, now) : undefined),
+    [proofs, onchainRound, now]
+  );
+  const windowStatus = roundWindow?.status;
+  const overdue = !!roundWindow?.overdue;
+  // A round mismatch is explained by the window banner; a different root for the same round is not
+  const roundMismatch = windowStatus === "pending" || windowStatus === "expired";
+  React.useEffect(() => {
+    setAwaitingRoot(windowStatus === "pending" || overdue);
+  }, [windowStatus, overdue]);
+
+  // New hour: the builder publishes a new round, so re-read the file and the distributor
+  const lastClockRound = React.useRef(clockRound);
+  React.useEffect(() => {
+    if (lastClockRound.current === clockRound) return;
+    lastClockRound.current = clockRound;
+    setReload((n) => n + 1);
+    refetchRoot();
+    refetchRound();
+  }, [clockRound, refetchRoot, refetchRound]);
+
+  // The chain moved past the file: fetch the newer one
+  React.useEffect(() => {
+    if (windowStatus === "expired") setReload((n) => n + 1);
+  }, [windowStatus]);
+
+  const cumulative = proofs?.mode === "cumulative";
+  const { data: isClaimedRound, refetch: refetchIsClaimedRound } = useReadContract({
     address: DISTRIBUTOR,
     abi: DistributorAbi as Abi,
     functionName: "isClaimed",
     args: proofs && address ? [BigInt(proofs.round), address as `0x${string}`] : undefined,
+    query: { enabled: !!proofs && !!address && !cumulative },
+  });
+  // Cumulative mode: total already paid out to this account
+  const { data: claimedSoFar, refetch: refetchClaimedSoFar } = useReadContract({
+    address: DISTRIBUTOR,
+    abi: CumulativeDistributorAbi as Abi,
+    functionName: "claimed",
+    args: address ? [address as `0x${string}`] : undefined,
+    query: { enabled: !!address && cumulative },
   });
 
+  // What a claim would pay right now: the full amount, or the difference from what was already claimed
+  const claimable = entry
+    ? cumulative
+      ? BigInt(entry.amount) - ((claimedSoFar as bigint | undefined) ?? 0n)
+      : BigInt(entry.amount)
+    : 0n;
+  const isClaimed = cumulative ? !!entry && claimable <= 0n : !!isClaimedRound;
+  const refetchIsClaimed = cumulative ? refetchClaimedSoFar : refetchIsClaimedRound;
+
   const tokenDecimals = (typeof decimals === "number" ? decimals : 18);
-  const pretty = entry ? fmtAmount(entry.amount, tokenDecimals) : null;
+  const pretty = entry ? fmtAmount((claimable > 0n ? claimable : 0n).toString(), tokenDecimals) : null;
+  const prettyTotal = entry && cumulative ? fmtAmount(entry.amount, tokenDecimals) : null;
 
-  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { send, data: hash, isPending, error } = useTrackedWrite();
   const { isLoading: waiting, isSuccess } = useWaitForTransactionReceipt({ hash });
 
+  // Simulated against the distributor before the wallet is asked: a bad proof or a round
+  // that just rolled over blocks the button instead of costing gas
+  const claimCall = React.useMemo(() => {
+    if (!entry || !proofs || !address) return undefined;
+    return cumulative
+      ? { address: DISTRIBUTOR, abi: CumulativeDistributorAbi as Abi, functionName: "claim", args: [address, BigInt(entry.amount), entry.proof] }
+      : { address: DISTRIBUTOR, abi: DistributorAbi as Abi, functionName: "claim", args: [BigInt(proofs.round), address, BigInt(entry.amount), entry.proof] };
+  }, [entry, proofs, address, cumulative]);
+  const prepared = usePreparedWrite(claimCall && !untrusted && !isClaimed ? claimCall : undefined);
+
   async function claim() {
-    if (!entry || !proofs) return;
+    if (!entry || !proofs || untrusted || !prepared.request) return;
 
     console.log("[claim] distributor:", DISTRIBUTOR);
     console.log("[claim] token      :", TOKEN);
@@ -112,30 +285,73 @@ export default function ClaimPage() {
     if (!/^0x[0-9a-fA-F]{64}$/.test(proofs.root)) console.error("[claim] Bad root hex");
     if (!entry.proof.every(p => /^0x[0-9a-fA-F]{64}$/.test(p))) console.error("[claim] Bad proof element");
 
-    // Send tx
-    writeContract({
-      address: DISTRIBUTOR,
-      abi: DistributorAbi as Abi,
-      functionName: "claim",
-      args: [BigInt(proofs.round), address as `0x${string}`, BigInt(entry.amount), entry.proof],
-    });
+    // Send a request simulated against the latest block; the round may have just rolled over
+    const request = await prepared.fresh();
+    if (request) void send(request, "claim", `Claim round ${proofs.round}`);
+  }
+
+  // Gasless: sign a ClaimRequest pinned to this root and let the relayer pay for claim()
+  const chainId = useChainId();
+  const { signTypedDataAsync, isPending: signing } = useSignTypedData();
+  const { track } = useActivity();
+  const [relayHash, setRelayHash] = React.useState<`0x${string}` | undefined>();
+  const [relayError, setRelayError] = React.useState<string | null>(null);
+  const [relaying, setRelaying] = React.useState(false);
+  const { isLoading: relayWaiting, isSuccess: relaySuccess } = useWaitForTransactionReceipt({ hash: relayHash });
+
+  async function claimGasless() {
+    if (!entry || !proofs || untrusted || !address) return;
+    setRelayError(null);
+    setRelayHash(undefined);
+    const request: ClaimRequest = {
+      account: address,
+      round: proofs.round,
+      amount: entry.amount,
+      root: proofs.root,
+      deadline: Math.floor(Date.now() / 1000) + RELAY_DEADLINE_SECONDS,
+    };
+    try {
+      const signature = await signTypedDataAsync({
+        domain: relayDomain(chainId, DISTRIBUTOR),
+        types: CLAIM_REQUEST_TYPES,
+        primaryType: "ClaimRequest",
+        message: request,
+      });
+      setRelaying(true);
+      const r = await fetch(RELAY_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ request, signature }),
+      });
+      const j = (await r.json()) as { ok: true; txHash: `0x${string}` } | { ok: false; error: string; code?: string };
+      if (!j.ok) {
+        setRelayError(r.status === 429 ? "Too many requests; try again in a minute." : j.code ? translateCode(j.code) : j.error);
+        return;
+      }
+      console.log("[claim] relayed:", j.txHash);
+      setRelayHash(j.txHash);
+      track({ hash: j.txHash, kind: "claim-gasless", label: `Gasless claim, round ${request.round}`, args: [request.round, request.account, request.amount] });
+    } catch (e) {
+      setRelayError(friendlyMessage(e));
+    } finally {
+      setRelaying(false);
+    }
   }
 
+  React.useEffect(() => {
+    if (relaySuccess) refetchIsClaimed();
+  }, [relaySuccess, refetchIsClaimed]);
+
+  const busy = isPending || waiting || signing || relaying || relayWaiting;
+
   function shorten(addr?: string, left = 6, right = 4) {
     if (!addr) return "";
     return addr.length > left + right + 2 ? `${addr.slice(0, left)}…${addr.slice(-right)}` : addr;
   }
 
   React.useEffect(() => {
-    if (!address || !proofs) { setEntry(null); return; }
-    const me = proofs.claims.find(c => c.account.toLowerCase() === address.toLowerCase()) || null;
-    console.log("[claim] connected:", address, "→ entry:", me ? { ...me, proofLen: me.proof.length } : null);
-    setEntry(me);
-
-    if(isSuccess) {
-      refetchIsClaimed();
-    }
-  }, [address, proofs, isSuccess, refetchIsClaimed]);
+    if (isSuccess) refetchIsClaimed();
+  }, [isSuccess, refetchIsClaimed]);
 
   return (
     <div className="min-h-screen bg-black text-zinc-200 py-10 px-4">
@@ -149,7 +365,9 @@ export default function ClaimPage() {
           </h1>
           <p className="text-zinc-400 mt-1">
             Check your eligibility and claim your airdrop securely.<br />
-            If you do not claim within 1 hour after a mint, you will lose your eligibility.<br /><br />
+            {cumulative
+              ? <>Rewards accumulate across rounds, so you can claim everything you earned at any time.<br /><br /></>
+              : <>If you do not claim within 1 hour after a mint, you will lose your eligibility.<br /><br /></>}
             NB : it can take up to a few minutes to be able to claim after a mint.
           </p>
         </div>
@@ -189,28 +407,61 @@ export default function ClaimPage() {
               />
             )}
 
+            {address && proofs && roundWindow && <ClaimWindowBanner info={roundWindow} />}
+
+            {address && proofs && untrusted && !(check.status === "stale" && roundMismatch) && (
+              <Banner tone="error">
+                <b>Stale or tampered proofs.</b> The claims file does not match what the distributor holds on-chain
+                ({check.reason}), so claiming is disabled. It usually refreshes within a few minutes.
+              </Banner>
+            )}
+            {address && proofs && check?.status === "unsigned" && (
+              <Banner tone="info">The claims file is not signed by the publisher; proofs were checked against the on-chain root.</Banner>
+            )}
+
             {address && entry && (
               <>
                 {/* Amount & status */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <Stat label="Eligible amount" value={`${pretty ?? "…"} MRT`} />
+                  <Stat label={cumulative ? "Claimable now" : "Eligible amount"} value={`${pretty ?? "…"} MRT`} />
                   <Stat
                     label="Status"
                     value={
                       isClaimed
                         ? "Already claimed"
-                        : (waiting || isPending)
+                        : busy
                         ? "Claiming…"
                         : "Unclaimed"
                     }
                   />
                 </div>
 
+                {cumulative && (
+                  <p className="text-xs text-zinc-500">
+                    Total earned to date: <span className="font-mono text-zinc-300">{prettyTotal} MRT</span>
+                  </p>
+                )}
+
+                {entry.reward && (
+                  <p className="text-xs text-zinc-500">
+                    Round {proofs?.round} reward: <span className="font-mono text-zinc-300">{explainReward(entry.reward, tokenDecimals)}</span>
+                    {" "}(policy <span className="font-mono">{entry.reward.policy}</span>
+                    {entry.reward.count > 0 && (
+                      <>
+                        , {entry.reward.count} NFT{entry.reward.count === 1 ? "" : "s"}{" "}
+                        {proofs?.eligibility?.source === "holders"
+                          ? `held at block ${proofs.eligibility.block ?? "?"}`
+                          : "minted this round"}
+                      </>
+                    )})
+                  </p>
+                )}
+
                 {/* Actions */}
                 <div className="flex items-center gap-3 pt-2">
                   <button
                     onClick={claim}
-                    disabled={!!isClaimed || isPending || waiting}
+                    disabled={!!isClaimed || busy || untrusted || !check || !prepared.request}
                     className="inline-flex items-center justify-center gap-2 rounded-xl px-5 py-2.5 text-sm font-semibold text-white shadow-sm disabled:opacity-60 bg-gradient-to-r from-indigo-500 to-fuchsia-600 hover:from-indigo-400 hover:to-fuchsia-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
                     aria-busy={waiting || isPending}
                   >
@@ -218,18 +469,38 @@ export default function ClaimPage() {
                     {isClaimed ? "Claimed" : "Claim"}
                   </button>
 
+                  {RELAYER_ENABLED && !isClaimed && (
+                    <button
+                      onClick={claimGasless}
+                      disabled={busy || untrusted || !check || !!prepared.blocked}
+                      className="inline-flex items-center justify-center gap-2 rounded-xl border border-zinc-700 px-5 py-2.5 text-sm font-semibold text-zinc-200 disabled:opacity-60 hover:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
+                      aria-busy={signing || relaying || relayWaiting}
+                    >
+                      {(signing || relaying || relayWaiting) && <Spinner />}
+                      Claim without gas
+                    </button>
+                  )}
+
                   <p className="text-xs text-zinc-500">
-                    Gas fees apply. Ensure you’re on the correct network.
+                    {RELAYER_ENABLED
+                      ? "Gas fees apply, unless you sign a gasless claim and let the relayer send it."
+                      : "Gas fees apply. Ensure you’re on the correct network."}
                   </p>
                 </div>
+                {!isClaimed && !untrusted && <WriteHint prepared={prepared} />}
 
                 {/* Success / Error */}
-                {isSuccess && (
+                {(isSuccess || relaySuccess) && (
                   <Banner tone="success">✅ Claimed successfully! Your transaction will show up shortly.</Banner>
                 )}
+                {relayError && (
+                  <Banner tone="error">
+                    <b>Gasless claim failed:</b> {relayError}
+                  </Banner>
+                )}
                 {error && (
                   <Banner tone="error">
-                    <b>Error:</b> {getErrorMessage(error)}
+                    <b>Error:</b> {friendlyMessage(error)}
                   </Banner>
                 )}
               </>
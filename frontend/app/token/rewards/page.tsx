@@ -0,0 +1,189 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useAccount, useReadContract } from "wagmi";
+import type { Abi } from "viem";
+import { formatUnits } from "viem";
+import { sepolia } from "wagmi/chains";
+import { EmptyState, Stat, Banner, SkeletonBlock } from "@/app/components/Helpers";
+import type { RewardHistory, RoundStatus } from "@/lib/history";
+
+const HISTORY_API = "/api/claims/history";
+const TOKEN = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as `0x${string}`;
+
+const erc20Abi = [
+  { name: "decimals", stateMutability: "view", type: "function", inputs: [], outputs: [{ type: "uint8" }] },
+] as const satisfies Abi;
+
+type HistoryResponse = ({ ok: true; warn?: string[] } & RewardHistory) | { ok: false; error: string };
+
+function fmtAmount(base: string, decimals: number, maxFrac = 6): string {
+  const s = formatUnits(BigInt(base), decimals);
+  const [i, f = ""] = s.split(".");
+  const f2 = f.slice(0, maxFrac).replace(/0+$/, "");
+  return f2 ? `${i}.${f2}` : i;
+}
+
+function shorten(hash: string, left = 8, right = 6) {
+  return hash.length > left + right + 2 ? `${hash.slice(0, left)}…${hash.slice(-right)}` : hash;
+}
+
+// A round is the hour starting at round * 3600
+function roundStart(round: number) {
+  return new Date(round * 3600 * 1000).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function RoundBadge({ status }: { status: RoundStatus }) {
+  const map = {
+    claimed:     { text: "Claimed",     cls: "bg-emerald-500/10 text-emerald-300 border-emerald-500/30" },
+    claimable:   { text: "Claimable",   cls: "bg-indigo-500/10 text-indigo-300 border-indigo-500/30" },
+    expired:     { text: "Expired",     cls: "bg-zinc-800/60 text-zinc-400 border-zinc-700" },
+    unpublished: { text: "Not on-chain", cls: "bg-amber-500/10 text-amber-300 border-amber-500/30" },
+  } as const;
+  const { text, cls } = map[status];
+  return <span className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>{text}</span>;
+}
+
+export default function RewardsPage() {
+  const { address, chain } = useAccount();
+  const explorer = (chain ?? sepolia).blockExplorers?.default.url;
+
+  const [history, setHistory] = React.useState<RewardHistory | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!address) { setHistory(null); setError(null); return; }
+    let cancelled = false;
+    setHistory(null);
+    setError(null);
+    (async () => {
+      try {
+        const r = await fetch(`${HISTORY_API}?account=${address}`);
+        const j: HistoryResponse = await r.json();
+        if (cancelled) return;
+        if (!j.ok) { setError(j.error); return; }
+        if (j.warn) console.warn("[rewards]", j.warn);
+        setHistory(j);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [address]);
+
+  const { data: decimals } = useReadContract({ address: TOKEN, abi: erc20Abi, functionName: "decimals" });
+  const tokenDecimals = typeof decimals === "number" ? decimals : 18;
+
+  const counts = React.useMemo(() => {
+    const c: Record<RoundStatus, number> = { claimed: 0, claimable: 0, expired: 0, unpublished: 0 };
+    for (const r of history?.rounds ?? []) c[r.status]++;
+    return c;
+  }, [history]);
+
+  const cumulative = history?.mode === "cumulative";
+
+  return (
+    <div className="min-h-screen bg-black text-zinc-200 py-10 px-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-extrabold tracking-tight">
+            <span className="bg-gradient-to-r from-indigo-400 to-fuchsia-400 bg-clip-text text-transparent">
+              My rewards
+            </span>
+          </h1>
+          <p className="text-zinc-400 mt-1">
+            Every round you earned MRT in, and what happened to it.
+            {cumulative
+              ? " Unclaimed rewards carry over, so everything still open can be claimed at once."
+              : " Rounds that were not claimed before the next root was published have expired."}
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-800 bg-zinc-900/70 shadow-2xl backdrop-blur-sm">
+          <div className="p-5 sm:p-6 space-y-5">
+            {!address && (
+              <EmptyState title="Connect your wallet" subtitle="Your reward history loads automatically." />
+            )}
+
+            {address && error && <Banner tone="error">Could not load your history: {error}</Banner>}
+
+            {address && !history && !error && <SkeletonBlock />}
+
+            {history && (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                  <Stat label="Received" value={`${fmtAmount(history.received, tokenDecimals)} MRT`} />
+                  <Stat label="Rounds earned" value={history.rounds.length} />
+                  <Stat label="Claimed" value={counts.claimed} />
+                  <Stat label={cumulative ? "Open" : "Expired"} value={cumulative ? counts.claimable : counts.expired} />
+                </div>
+
+                {counts.claimable > 0 && (
+                  <Banner tone="info">
+                    You have unclaimed rewards. <Link href="/token/claim" className="underline">Claim them now</Link>.
+                  </Banner>
+                )}
+
+                {history.rounds.length === 0 ? (
+                  <EmptyState title="No rewards yet" subtitle="Mint an NFT to become eligible in the current round." />
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs uppercase tracking-wide text-zinc-500">
+                          <th className="py-2 pr-3">Round</th>
+                          <th className="py-2 pr-3">Started</th>
+                          <th className="py-2 pr-3 text-right">Amount</th>
+                          <th className="py-2 pr-3">Status</th>
+                          <th className="py-2">Transaction</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-zinc-800">
+                        {history.rounds.map((r) => (
+                          <tr key={r.round}>
+                            <td className="py-2 pr-3 font-mono">{r.round}</td>
+                            <td className="py-2 pr-3 text-zinc-400">{roundStart(r.round)}</td>
+                            <td className="py-2 pr-3 text-right font-mono">{fmtAmount(r.amount, tokenDecimals)} MRT</td>
+                            <td className="py-2 pr-3"><RoundBadge status={r.status} /></td>
+                            <td className="py-2 font-mono text-xs">
+                              {r.claim ? (
+                                explorer ? (
+                                  <a href={`${explorer}/tx/${r.claim.txHash}`} target="_blank" rel="noreferrer" className="text-indigo-300 hover:underline">
+                                    {shorten(r.claim.txHash)}
+                                  </a>
+                                ) : shorten(r.claim.txHash)
+                              ) : <span className="text-zinc-600">—</span>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {cumulative && history.claims.length > 0 && (
+                  <div className="space-y-1">
+                    <h2 className="text-xs uppercase tracking-wide text-zinc-500">Claims</h2>
+                    {history.claims.map((c) => (
+                      <p key={c.txHash} className="text-xs text-zinc-400">
+                        {new Date(c.timestamp * 1000).toLocaleString()} · <span className="font-mono text-zinc-300">{fmtAmount(c.amount, tokenDecimals)} MRT</span> ·{" "}
+                        {explorer ? (
+                          <a href={`${explorer}/tx/${c.txHash}`} target="_blank" rel="noreferrer" className="font-mono text-indigo-300 hover:underline">
+                            {shorten(c.txHash)}
+                          </a>
+                        ) : <span className="font-mono">{shorten(c.txHash)}</span>}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <p className="text-xs text-zinc-500">Indexed up to block {history.indexedTo}.</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 "use client";
 
 import * as React from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useAccount, useReadContract, useWaitForTransactionReceipt } from "wagmi";
 import type { Abi } from "viem";
 import StakingAbi from "@/abi/SimpleStakingVault.json";
 import { formatUnits, parseUnits } from "viem";
 import { EmptyState, Stat, Banner } from "@/app/components/Helpers";
+import { friendlyMessage } from "@/lib/contractErrors";
+import { usePreparedWrite, WriteHint, type WriteCall } from "@/app/components/PreparedWrite";
+import { useTrackedWrite } from "@/app/components/Activity";
 
 const STAKING = process.env.NEXT_PUBLIC_STAKING_ADDRESS as `0x${string}`;
 const TOKEN   = process.env.NEXT_PUBLIC_TOKEN_ADDRESS as `0x${string}`;
@@ -44,12 +47,12 @@ export default function StakePage() {
     address: STAKING, abi: stakingViewAbi, functionName: "earned",
     args: address ? [address] : undefined, query: { enabled: !!address, refetchInterval: 5000 }
   });
-  const { data: allowance } = useReadContract({
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
     address: TOKEN, abi: erc20Abi, functionName: "allowance",
     args: address ? [address, STAKING] : undefined, query: { enabled: !!address }
   });
 
-  const { writeContract, data: txHash, isPending, error: writeError } = useWriteContract();
+  const { send, data: txHash, isPending, error: writeError } = useTrackedWrite();
   const { isLoading: waiting, isSuccess, isError, error: txError } = useWaitForTransactionReceipt({
     hash: txHash,
   });
@@ -66,32 +69,50 @@ export default function StakePage() {
     !!decimals &&
     parseUnits(amount || "0", Number(decimals)) > (allowance as bigint ?? 0n);
 
-  const doApprove = () => {
-    if (!decimals) return;
-    writeContract({
-      address: TOKEN, abi: erc20Abi, functionName: "approve",
-      args: [STAKING, parseUnits(amount, Number(decimals))]
-    });
+  // Each action is simulated first; a call that would revert disables its button
+  const units = decimals ? parseUnits(amount || "0", Number(decimals)) : 0n;
+  const call = (c: Omit<WriteCall, "abi"> & { abi?: Abi }): WriteCall | undefined =>
+    address && decimals ? { abi: StakingAbi as Abi, ...c } : undefined;
+
+  const approve = usePreparedWrite(needsApprove ? call({ address: TOKEN, abi: erc20Abi as Abi, functionName: "approve", args: [STAKING, units] }) : undefined);
+  const stake = usePreparedWrite(!needsApprove && units > 0n ? call({ address: STAKING, functionName: "stake", args: [units] }) : undefined);
+  const unstake = usePreparedWrite(units > 0n && (stakedBal ?? 0n) > 0n ? call({ address: STAKING, functionName: "withdraw", args: [units] }) : undefined);
+  const getReward = usePreparedWrite((earned ?? 0n) > 0n ? call({ address: STAKING, functionName: "getReward", args: [] }) : undefined);
+
+  const { refetch: refetchApprove } = approve;
+  const { refetch: refetchStake } = stake;
+  const { refetch: refetchUnstake } = unstake;
+  React.useEffect(() => {
+    if (!isSuccess) return;
+    refetchAllowance();
+    refetchApprove();
+    refetchStake();
+    refetchUnstake();
+  }, [isSuccess, refetchAllowance, refetchApprove, refetchStake, refetchUnstake]);
+
+  // Each send is re-simulated against the latest block first
+  const doApprove = async () => {
+    if (!approve.request) return;
+    const request = await approve.fresh();
+    if (request) void send(request, "approve", `Approve ${amount} MRT`);
   };
 
-  const doStake = () => {
-    if (!decimals) return;
-    writeContract({
-      address: STAKING, abi: StakingAbi as Abi, functionName: "stake",
-      args: [parseUnits(amount, Number(decimals))]
-    });
+  const doStake = async () => {
+    if (!stake.request) return;
+    const request = await stake.fresh();
+    if (request) void send(request, "stake", `Stake ${amount} MRT`);
   };
 
-  const doUnstake = () => {
-    if (!decimals) return;
-    writeContract({
-      address: STAKING, abi: StakingAbi as Abi, functionName: "withdraw",
-      args: [parseUnits(amount, Number(decimals))]
-    });
+  const doUnstake = async () => {
+    if (!unstake.request) return;
+    const request = await unstake.fresh();
+    if (request) void send(request, "unstake", `Unstake ${amount} MRT`);
   };
 
-  const doClaim = () => {
-    writeContract({ address: STAKING, abi: StakingAbi as Abi, functionName: "getReward", args: [] });
+  const doClaim = async () => {
+    if (!getReward.request) return;
+    const request = await getReward.fresh();
+    if (request) void send(request, "staking-reward", "Claim staking rewards");
   };
 
   return (
@@ -188,7 +209,7 @@ export default function StakePage() {
                   {needsApprove ? (
                     <button
                       onClick={doApprove}
-                      disabled={isPending || waiting}
+                      disabled={isPending || waiting || !approve.request}
                       className="inline-flex items-center justify-center gap-2 rounded-xl px-5 py-2.5 text-sm font-semibold text-white shadow-sm disabled:opacity-60 bg-gradient-to-r from-indigo-500 to-fuchsia-600 hover:from-indigo-400 hover:to-fuchsia-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
                       aria-busy={waiting || isPending}
                     >
@@ -197,30 +218,35 @@ export default function StakePage() {
                   ) : (
                     <button
                       onClick={doStake}
-                      disabled={Number(amount) === 0 || isPending || waiting}
+                      disabled={Number(amount) === 0 || isPending || waiting || !stake.request}
                       className="inline-flex items-center justify-center gap-2 rounded-xl px-5 py-2.5 text-sm font-semibold text-white shadow-sm disabled:opacity-60 bg-gradient-to-r from-indigo-500 to-fuchsia-600 hover:from-indigo-400 hover:to-fuchsia-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/60"
                       aria-busy={waiting || isPending}
                     >
                       {isPending || waiting ? "Staking…" : "Stake"}
                     </button>
                   )}
+                  <WriteHint prepared={needsApprove ? approve : stake} />
 
                   <div className="flex gap-3">
                     <button
                       onClick={doUnstake}
-                      disabled={(stakedBal ?? 0n) === 0n || Number(amount) === 0 || isPending || waiting}
+                      disabled={(stakedBal ?? 0n) === 0n || Number(amount) === 0 || isPending || waiting || !unstake.request}
                       className="flex-1 rounded-xl border border-zinc-700 bg-zinc-800 px-4 py-2 text-sm font-medium text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
                     >
                       Unstake
                     </button>
                     <button
                       onClick={doClaim}
-                      disabled={(earned ?? 0n) === 0n || isPending || waiting}
+                      disabled={(earned ?? 0n) === 0n || isPending || waiting || !getReward.request}
                       className="flex-1 rounded-xl border border-zinc-700 bg-zinc-800 px-4 py-2 text-sm font-medium text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
                     >
                       Claim rewards
                     </button>
                   </div>
+                  <div className="flex gap-3">
+                    <div className="flex-1"><WriteHint prepared={unstake} /></div>
+                    <div className="flex-1"><WriteHint prepared={getReward} /></div>
+                  </div>
 
                   {/* Success / Error */}
                   {isSuccess && (
@@ -229,13 +255,13 @@ export default function StakePage() {
 
                   {writeError && (
                     <Banner tone="error">
-                      <b>Error:</b> {writeError.message}
+                      <b>Error:</b> {friendlyMessage(writeError)}
                     </Banner>
                   )}
 
                   {isError && (
                     <Banner tone="error">
-                      <b>Tx failed:</b> {txError?.message || "Unknown error"}
+                      <b>Tx failed:</b> {txError ? friendlyMessage(txError) : "Unknown error"}
                     </Banner>
                   )}
                 </div>
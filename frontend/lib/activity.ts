@@ -0,0 +1,88 @@
+// Every transaction the app submits, kept in localStorage per account and chain so a reload
+// or a page change does not lose track of it. app/components/Activity.tsx follows the
+// pending ones to a receipt; this module is the storage format and its updates.
+//   pending    submitted, no receipt yet
+//   confirmed  mined with status success
+//   failed     mined and reverted, or the wallet/RPC gave up on it
+//   replaced   another tx took its nonce: a cancel or an unrelated send (a speed-up keeps
+//              the entry and moves it to the new hash instead)
+
+export type ActivityKind = "mint" | "claim" | "claim-gasless" | "approve" | "stake" | "unstake" | "staking-reward";
+
+export type ActivityStatus = "pending" | "confirmed" | "failed" | "replaced";
+
+export type Activity = {
+  hash: `0x${string}`;
+  kind: ActivityKind;
+  label: string;              // "Mint 2 NFTs", "Claim round 490123", ...
+  args?: unknown[];           // call arguments, bigints as strings
+  chainId: number;
+  account: `0x${string}`;
+  status: ActivityStatus;
+  submittedAt: number;        // ms epoch
+  updatedAt: number;
+  speedUps?: `0x${string}`[]; // earlier hashes of this entry, oldest first
+  from?: `0x${string}`;       // sender and nonce, once the node has returned the tx;
+  nonce?: number;             // a later nonce without a receipt for this hash means it was replaced
+  blockNumber?: number;
+  error?: string;
+};
+
+export const ACTIVITY_LIMIT = 50;
+
+export const KIND_LABELS: Record<ActivityKind, string> = {
+  mint: "Mint",
+  claim: "Claim",
+  "claim-gasless": "Gasless claim",
+  approve: "Approve",
+  stake: "Stake",
+  unstake: "Unstake",
+  "staking-reward": "Staking rewards",
+};
+
+export function activityKey(account: string, chainId: number) {
+  return `mrt:activity:${chainId}:${account.toLowerCase()}`;
+}
+
+// JSON-safe copy of call arguments
+export function serializeArgs(args: readonly unknown[] | undefined): unknown[] | undefined {
+  if (!args) return undefined;
+  return JSON.parse(JSON.stringify(args, (_k, v) => (typeof v === "bigint" ? v.toString() : v))) as unknown[];
+}
+
+export function loadActivity(key: string): Activity[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as Activity[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveActivity(key: string, items: Activity[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(items.slice(0, ACTIVITY_LIMIT)));
+  } catch {
+    // storage full or disabled: tracking still works for this tab
+  }
+}
+
+// Newest first; re-adding a hash keeps the original entry
+export function addActivity(items: Activity[], next: Activity): Activity[] {
+  if (items.some((a) => a.hash === next.hash)) return items;
+  return [next, ...items].slice(0, ACTIVITY_LIMIT);
+}
+
+export function updateActivity(items: Activity[], hash: `0x${string}`, patch: Partial<Activity>): Activity[] {
+  return items.map((a) => (a.hash === hash ? { ...a, ...patch, updatedAt: Date.now() } : a));
+}
+
+// A speed-up: same call, new hash. The entry follows the new hash and remembers the old one.
+export function repriceActivity(items: Activity[], from: `0x${string}`, to: `0x${string}`): Activity[] {
+  return items.map((a) =>
+    a.hash === from ? { ...a, hash: to, speedUps: [...(a.speedUps ?? []), from], updatedAt: Date.now() } : a
+  );
+}
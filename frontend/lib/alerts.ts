@@ -0,0 +1,19 @@
+// Posts operator alerts to ALERT_WEBHOOK_URL (Slack- and Discord-compatible body)
+
+export async function postAlert(title: string, details: Record<string, unknown> = {}): Promise<boolean> {
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) return false;
+
+  const lines = Object.entries(details).map(([k, v]) => `• ${k}: ${typeof v === "string" ? v : JSON.stringify(v)}`);
+  const text = [`[MRT builder] ${title}`, ...lines].join("\n");
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, content: text }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,58 @@
+import { readJson, writeJson } from "@/lib/store";
+import type { ClaimsMode, ProofsPayload } from "@/lib/merkle";
+
+// Per-round snapshots of the proofs payload, plus a manifest of every archived round.
+// claims/current.json keeps being overwritten; claims/rounds/<round>.json is only
+// rewritten while its round is still the live one.
+
+export type RoundIndexEntry = {
+  round: number;
+  mode: ClaimsMode;
+  root: `0x${string}`;
+  count: number;
+  excluded?: number;
+  updatedAt: string;
+};
+
+export type RoundIndex = {
+  version: 1;
+  rounds: RoundIndexEntry[]; // newest first
+};
+
+export const ROUND_INDEX_KEY = "claims/rounds/index.json";
+
+export function roundKey(round: number) {
+  return `claims/rounds/${round}.json`;
+}
+
+export function upsertRoundIndex(index: RoundIndex, entry: RoundIndexEntry): RoundIndex {
+  const rounds = index.rounds.filter((r) => r.round !== entry.round);
+  rounds.push(entry);
+  rounds.sort((a, b) => b.round - a.round);
+  return { version: 1, rounds };
+}
+
+export async function readRoundIndex(): Promise<RoundIndex> {
+  return (await readJson<RoundIndex>(ROUND_INDEX_KEY)) ?? { version: 1, rounds: [] };
+}
+
+export async function readArchivedRound(round: number): Promise<ProofsPayload | undefined> {
+  return readJson<ProofsPayload>(roundKey(round));
+}
+
+// Writes the round snapshot, then the manifest entry pointing at it
+export async function archiveRound(payload: ProofsPayload): Promise<{ url: string }> {
+  const url = await writeJson(roundKey(payload.round), JSON.stringify(payload, null, 2));
+
+  const index = upsertRoundIndex(await readRoundIndex(), {
+    round: payload.round,
+    mode: payload.mode ?? "round",
+    root: payload.root,
+    count: payload.claims.length,
+    excluded: payload.excluded?.length,
+    updatedAt: new Date().toISOString(),
+  });
+  await writeJson(ROUND_INDEX_KEY, JSON.stringify(index, null, 2));
+
+  return { url };
+}
@@ -0,0 +1,118 @@
+import crypto from "node:crypto";
+import type { NextRequest } from "next/server";
+import { getClaimsStore } from "@/lib/store";
+
+// Authentication for /api/rebuild. Three ways in:
+//  - signed:  x-rebuild-timestamp / x-rebuild-nonce / x-rebuild-signature, where the signature is
+//             hex HMAC-SHA256(REBUILD_TOKEN, `${timestamp}.${nonce}.${body}`); stale or reused → rejected
+//  - alchemy: x-alchemy-signature = hex HMAC-SHA256(ALCHEMY_SIGNING_KEY, body); createdAt must be recent
+//  - bearer:  Authorization: Bearer REBUILD_TOKEN (manual calls)
+// A missing secret only lets requests through outside production.
+
+export type Caller = "signed" | "alchemy" | "bearer" | "dev";
+
+export type AuthResult =
+  | { ok: true; caller: Caller }
+  | { ok: false; status: 401 | 409; error: string };
+
+const MAX_SKEW_SECONDS = Number(process.env.REBUILD_MAX_SKEW_SECONDS ?? 300);
+
+// Compares digests so neither length nor content leaks through timing
+export function safeEqual(a: string, b: string) {
+  const da = crypto.createHash("sha256").update(a).digest();
+  const db = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(da, db);
+}
+
+export function hmacHex(key: string, data: string) {
+  return crypto.createHmac("sha256", key).update(data).digest("hex");
+}
+
+// Signature the builder workflow attaches to a request body
+export function signRequest(token: string, body: string, timestamp: number, nonce: string) {
+  return hmacHex(token, `${timestamp}.${nonce}.${body}`);
+}
+
+function allowUnconfigured() {
+  return process.env.NODE_ENV !== "production";
+}
+
+function withinSkew(seconds: number) {
+  return Number.isFinite(seconds) && Math.abs(Date.now() / 1000 - seconds) <= MAX_SKEW_SECONDS;
+}
+
+export const REBUILD_NONCES_PREFIX = "claims/rebuild-nonces";
+
+export function rebuildNonceKey(nonce: string) {
+  return `${REBUILD_NONCES_PREFIX}/${crypto.createHash("sha256").update(nonce).digest("hex")}.json`;
+}
+
+// true the first time a nonce is seen. One create-if-absent key per nonce in the claims
+// store (like webhook delivery ids), so replays are caught across instances and restarts
+async function claimNonce(nonce: string) {
+  return getClaimsStore().create(rebuildNonceKey(nonce), JSON.stringify({ usedAt: new Date().toISOString() }));
+}
+
+export function verifyBearer(req: NextRequest) {
+  const token = process.env.REBUILD_TOKEN;
+  if (!token) return allowUnconfigured();
+  return safeEqual(req.headers.get("authorization") ?? "", `Bearer ${token}`);
+}
+
+export async function verifySignedRequest(raw: string, req: NextRequest): Promise<AuthResult> {
+  const token = process.env.REBUILD_TOKEN;
+  const ts = req.headers.get("x-rebuild-timestamp");
+  const nonce = req.headers.get("x-rebuild-nonce");
+  const sig = req.headers.get("x-rebuild-signature");
+  if (!token || !ts || !nonce || !sig) return { ok: false, status: 401, error: "unauthorized" };
+
+  if (!withinSkew(Number(ts))) return { ok: false, status: 401, error: "stale timestamp" };
+  if (!safeEqual(sig.toLowerCase(), signRequest(token, raw, Number(ts), nonce))) {
+    return { ok: false, status: 401, error: "unauthorized" };
+  }
+  // Checked after the signature so unauthenticated callers cannot burn nonces
+  if (!(await claimNonce(nonce))) return { ok: false, status: 409, error: "replayed nonce" };
+  return { ok: true, caller: "signed" };
+}
+
+export function verifyAlchemySignature(raw: string, req: NextRequest): AuthResult {
+  const signingKey = process.env.ALCHEMY_SIGNING_KEY;
+  if (!signingKey) {
+    return allowUnconfigured() ? { ok: true, caller: "alchemy" } : { ok: false, status: 401, error: "unauthorized" };
+  }
+  const sig = req.headers.get("x-alchemy-signature") ?? "";
+  if (!safeEqual(sig.toLowerCase(), hmacHex(signingKey, raw))) return { ok: false, status: 401, error: "unauthorized" };
+
+  // Alchemy sends no timestamp header; the signed body carries createdAt
+  try {
+    const createdAt = (JSON.parse(raw) as { createdAt?: string })?.createdAt;
+    if (createdAt && !withinSkew(Date.parse(createdAt) / 1000)) {
+      return { ok: false, status: 401, error: "stale timestamp" };
+    }
+  } catch {
+    // not JSON: nothing to check, the signature still matched
+  }
+  return { ok: true, caller: "alchemy" };
+}
+
+export async function authenticate(raw: string, req: NextRequest): Promise<AuthResult> {
+  if (req.headers.has("x-rebuild-signature")) return verifySignedRequest(raw, req);
+  if (req.headers.has("x-alchemy-signature")) return verifyAlchemySignature(raw, req);
+  if (req.headers.has("authorization")) {
+    return verifyBearer(req) ? { ok: true, caller: "bearer" } : { ok: false, status: 401, error: "unauthorized" };
+  }
+  if (!process.env.REBUILD_TOKEN && !process.env.ALCHEMY_SIGNING_KEY && allowUnconfigured()) {
+    return { ok: true, caller: "dev" };
+  }
+  return { ok: false, status: 401, error: "unauthorized" };
+}
+
+// Rate-limit key: the client address as the platform saw it. x-real-ip is set by the
+// proxy (Vercel overwrites it); otherwise the last x-forwarded-for hop, which the nearest
+// proxy appended. Earlier hops come from the client and can be rotated freely.
+export function callerKey(req: NextRequest) {
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").map((h) => h.trim()).filter(Boolean);
+  return forwarded?.at(-1) || "unknown";
+}
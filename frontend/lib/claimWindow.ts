@@ -0,0 +1,61 @@
+import { roundBounds, roundOf } from "./rounds";
+import type { ClaimsMode } from "./merkle";
+
+// Where the live proofs file stands against the distributor and the clock.
+// Round mode: the distributor only accepts claims for its current round(), and the builder
+// moves it on with the next setRoot, normally shortly after the hour ends.
+//   pending    the file is for a newer round than round(): its root is not published yet
+//   claimable  file and chain agree, and the round has more than expiringSeconds left
+//   expiring   file and chain agree, and the hour is nearly over (or over, until the next setRoot)
+//   expired    round() moved past the file: its proofs no longer verify
+// Cumulative mode has no expiry; leaves carry totals, so "expiring" never applies.
+// Relative imports only, so backend/ tests can load it.
+
+export type ClaimWindowStatus = "pending" | "claimable" | "expiring" | "expired";
+
+export type ClaimWindow = {
+  status: ClaimWindowStatus;
+  fileRound: number;
+  onchainRound: number;
+  clockRound: number;       // round of the current wall-clock hour
+  endsAt?: number;          // unix seconds the file's round ends; round mode only
+  secondsLeft?: number;     // until endsAt, floored at 0
+  overdue: boolean;         // the hour is over but round() has not moved on yet
+};
+
+export const EXPIRING_SECONDS = 10 * 60;
+
+export function claimWindow(
+  fileRound: number,
+  onchainRound: number | bigint,
+  mode: ClaimsMode = "round",
+  nowSeconds = Math.floor(Date.now() / 1000),
+  expiringSeconds = EXPIRING_SECONDS
+): ClaimWindow {
+  const chainRound = Number(onchainRound);
+  const clockRound = roundOf(nowSeconds);
+  const base = { fileRound, onchainRound: chainRound, clockRound, overdue: false };
+
+  if (fileRound > chainRound) return { ...base, status: "pending" };
+  if (fileRound < chainRound) return { ...base, status: "expired" };
+  if (mode === "cumulative") return { ...base, status: "claimable" };
+
+  const [, endsAt] = roundBounds(fileRound);
+  const secondsLeft = Math.max(0, endsAt - nowSeconds);
+  return {
+    ...base,
+    status: secondsLeft > expiringSeconds ? "claimable" : "expiring",
+    endsAt,
+    secondsLeft,
+    overdue: secondsLeft === 0,
+  };
+}
+
+// 3725 → "1:02:05", 65 → "1:05"
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+}
@@ -0,0 +1,144 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Abi,
+  type Hex,
+} from "viem";
+import DistributorAbi from "@/abi/MerkleDistributor.json";
+import CumulativeDistributorAbi from "@/abi/CumulativeMerkleDistributor.json";
+import NftAbi from "@/abi/MRTNFToken.json";
+import TokenAbi from "@/abi/MRToken.json";
+import StakingAbi from "@/abi/SimpleStakingVault.json";
+
+// One place that turns a failed call into something a user can act on.
+// Reverts are decoded from require strings and from custom errors of every contract the
+// app talks to, so an OZ error raised by MRToken inside vault.stake() decodes too,
+// even though the vault's own ABI does not declare it.
+
+export type FriendlyError = {
+  code?: string;       // revert string or custom error name, e.g. "BAD_PROOF", "ERC20InsufficientAllowance"
+  title: string;
+  action?: string;
+  detail: string;      // the underlying message, for logs and "show details"
+};
+
+type Translation = { title: string; action?: string };
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+const ALL_ABIS = [DistributorAbi, CumulativeDistributorAbi, NftAbi, TokenAbi, StakingAbi] as Abi[];
+
+// Custom errors by name; ABIs that share an error (Ownable…) list it once
+const KNOWN_ERRORS: AbiError[] = [
+  ...new Map(
+    ALL_ABIS.flat()
+      .filter((item): item is AbiError => item.type === "error")
+      .map((item) => [item.name, item] as const)
+  ).values(),
+];
+
+const MESSAGES: Record<string, Translation> = {
+  // MRTNFToken
+  MINT_TOO_SOON: { title: "You minted less than an hour ago.", action: "Wait for the cooldown to end, then mint again." },
+  QTY_ZERO: { title: "Quantity must be at least 1.", action: "Pick how many NFTs to mint." },
+  MAX_SUPPLY: { title: "Not enough NFTs left for this quantity.", action: "Lower the quantity." },
+  INSUFFICIENT_ETH: { title: "The ETH sent does not cover the mint price.", action: "Reload the page to pick up the current price." },
+  EnforcedPause: { title: "Minting is paused.", action: "Try again once the sale reopens." },
+  // MerkleDistributor / CumulativeMerkleDistributor
+  WRONG_ROUND: { title: "This round is no longer claimable.", action: "Reload the page for the current round's proofs." },
+  AMOUNT: { title: "The claim amount does not match the distributor's reward.", action: "Reload the page to fetch fresh proofs." },
+  ALREADY_CLAIMED: { title: "You already claimed this round." },
+  BAD_PROOF: { title: "Your proof does not match the published root.", action: "The root was probably just updated; reload the page." },
+  NOTHING_TO_CLAIM: { title: "There is nothing left to claim.", action: "New rewards show up after your next eligible round." },
+  TRANSFER_FAILED: { title: "The distributor could not pay out.", action: "It may be out of MRT; try again later." },
+  // SimpleStakingVault
+  AMOUNT_ZERO: { title: "Amount must be greater than zero.", action: "Enter an amount." },
+  INSUFFICIENT_STAKE: { title: "You are trying to unstake more than you staked.", action: "Lower the amount to at most your staked balance." },
+  SafeERC20FailedOperation: { title: "The MRT transfer failed.", action: "Check your balance and approval, then retry." },
+  // MRToken (ERC20)
+  ERC20InsufficientAllowance: { title: "The vault is not approved for this amount.", action: "Approve MRT first, then stake." },
+  ERC20InsufficientBalance: { title: "Not enough MRT in your wallet.", action: "Lower the amount." },
+  ERC20InvalidReceiver: { title: "Tokens cannot be sent to this address." },
+  // Shared OZ errors
+  OwnableUnauthorizedAccount: { title: "Only the contract owner can do this." },
+  ReentrancyGuardReentrantCall: { title: "The call was rejected as re-entrant.", action: "Retry the transaction." },
+};
+
+function revertData(err: BaseError): Hex | undefined {
+  const found = err.walk((e) => typeof (e as { data?: unknown }).data === "string") as { data?: unknown } | null;
+  const data = found?.data;
+  return typeof data === "string" && data.startsWith("0x") && data.length >= 10 ? (data as Hex) : undefined;
+}
+
+// require string or custom error name behind a revert, if it can be recovered
+export function revertCode(e: unknown): string | undefined {
+  if (!(e instanceof BaseError)) return undefined;
+  const reverted = e.walk((x) => x instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.reason) return reverted.reason;
+    if (reverted.data?.errorName && reverted.data.errorName !== "Error") return reverted.data.errorName;
+    if (reverted.raw) return decodeKnown(reverted.raw);
+  }
+  const data = revertData(e);
+  return data ? decodeKnown(data) : undefined;
+}
+
+function decodeKnown(data: Hex): string | undefined {
+  try {
+    const decoded = decodeErrorResult({ abi: KNOWN_ERRORS, data });
+    if (decoded.errorName === "Error") return String(decoded.args?.[0]);
+    return decoded.errorName;
+  } catch {
+    return undefined;
+  }
+}
+
+function detailOf(e: unknown): string {
+  if (e instanceof BaseError) return e.shortMessage || e.message;
+  if (e instanceof Error) return e.message;
+  if (e && typeof e === "object") {
+    const any = e as { message?: unknown; shortMessage?: unknown };
+    if (typeof any.shortMessage === "string") return any.shortMessage;
+    if (typeof any.message === "string") return any.message;
+  }
+  return String(e);
+}
+
+export function translateError(e: unknown): FriendlyError {
+  const detail = detailOf(e);
+  if (e instanceof BaseError) {
+    if (e.walk((x) => x instanceof UserRejectedRequestError)) {
+      return { code: "UserRejected", title: "You rejected the request in your wallet.", detail };
+    }
+    if (e.walk((x) => x instanceof InsufficientFundsError)) {
+      return { code: "InsufficientFunds", title: "Not enough ETH to pay for gas.", action: "Top up your wallet and retry.", detail };
+    }
+    if (e.walk((x) => x instanceof ChainMismatchError)) {
+      return { code: "ChainMismatch", title: "Your wallet is on another network.", action: "Switch networks in your wallet.", detail };
+    }
+  }
+
+  const code = revertCode(e);
+  if (code) {
+    const known = MESSAGES[code];
+    return known ? { code, ...known, detail } : { code, title: `The transaction would revert (${code}).`, detail };
+  }
+  return { title: detail, detail };
+}
+
+// A revert code reported by the server (e.g. the relayer), as one line
+export function translateCode(code: string): string {
+  const known = MESSAGES[code];
+  if (!known) return `The transaction would revert (${code}).`;
+  return known.action ? `${known.title} ${known.action}` : known.title;
+}
+
+// One line for banners: "Title Action"
+export function friendlyMessage(e: unknown): string {
+  if (!e) return "";
+  const { title, action } = translateError(e);
+  return action ? `${title} ${action}` : title;
+}
@@ -0,0 +1,348 @@
+import { Contract, ethers, JsonRpcProvider, type Provider } from "ethers";
+import { readJson, writeJson } from "@/lib/store";
+import { withLock } from "@/lib/lock";
+import { MULTICALL3_ADDRESS } from "@/lib/solvency";
+import type { Claim, ClaimsMode, ProofsPayload } from "@/lib/merkle";
+
+// Claim on behalf: claim() pays the account in the leaf whoever sends it, so an operator
+// wallet can push every unclaimed reward of the live payload. Either one claim per tx with
+// locally assigned nonces, or batches through Multicall3.aggregate3 with allowFailure, so one
+// claim that went through in the meantime does not sink the rest of its batch.
+// Progress goes to claims/distribute/<round>.json after every batch; a rerun for the same
+// root picks it up, settles sent txs and only retries what is still open.
+
+export type DistributeMethod = "sequential" | "multicall";
+
+export type DistributeStatus = "sent" | "mined" | "skipped" | "failed";
+
+export type DistributeEntry = {
+  account: `0x${string}`;
+  amount: string;
+  status: DistributeStatus;
+  txHash?: `0x${string}`;
+  nonce?: number;
+  error?: string;
+  updatedAt: string;
+};
+
+export type DistributeReport = {
+  version: 1;
+  mode: ClaimsMode;
+  round: number;
+  root: `0x${string}`;
+  distributor: `0x${string}`;
+  from: `0x${string}`;
+  method: DistributeMethod;
+  startedAt: string;
+  updatedAt: string;
+  entries: DistributeEntry[];
+};
+
+export type DistributeCounts = Record<DistributeStatus, number>;
+
+export type DistributeOptions = {
+  rpcUrl?: string;
+  distributor?: `0x${string}`;
+  senderKey?: string;
+  method?: DistributeMethod;
+  batchSize?: number;
+  multicall?: `0x${string}`;
+  limit?: number;       // at most this many claims sent in one run
+  dryRun?: boolean;     // list what would be sent; writes nothing
+  waitMs?: number;
+};
+
+export type DistributeResult =
+  | {
+      ok: boolean;      // false while anything failed or is still pending
+      dryRun: boolean;
+      round: number;
+      root: `0x${string}`;
+      method: DistributeMethod;
+      from?: `0x${string}`;
+      reportKey: string;
+      counts: DistributeCounts;
+      toSend?: `0x${string}`[];   // dryRun only
+      report?: DistributeReport;
+    }
+  | { ok: false; error: string; holder?: string };
+
+export const DISTRIBUTE_LOCK_KEY = "distribute";
+const LOCK_TTL_MS = Number(process.env.DISTRIBUTE_LOCK_TTL_SECONDS ?? 1800) * 1000;
+
+const READ_ABI = [
+  "function merkleRoot() view returns (bytes32)",
+  "function round() view returns (uint64)",
+  "function isClaimed(uint64 r, address a) view returns (bool)",
+  "function claimed(address a) view returns (uint256)",
+  "event Claimed(uint64 indexed round, address indexed account, uint256 amount)",
+] as const;
+
+const ROUND_CLAIM_ABI = ["function claim(uint64 r, address account, uint256 amount, bytes32[] merkleProof)"] as const;
+const CUMULATIVE_CLAIM_ABI = ["function claim(address account, uint256 cumulativeAmount, bytes32[] merkleProof)"] as const;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+] as const;
+
+export function distributeReportKey(round: number) {
+  return `claims/distribute/${round}.json`;
+}
+
+export function countEntries(entries: DistributeEntry[]): DistributeCounts {
+  const counts: DistributeCounts = { sent: 0, mined: 0, skipped: 0, failed: 0 };
+  for (const e of entries) counts[e.status]++;
+  return counts;
+}
+
+function revertReason(e: unknown): string {
+  const err = e as { reason?: string; shortMessage?: string; message?: string };
+  return err.reason ?? err.shortMessage ?? err.message ?? String(e);
+}
+
+// Error(string) payload of a failed aggregate3 sub-call
+function decodeReturnReason(data: string): string {
+  if (data.startsWith("0x08c379a0")) {
+    try {
+      return ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(data, 4))[0] as string;
+    } catch {
+      // fall through
+    }
+  }
+  return data === "0x" ? "reverted" : `reverted (${data.slice(0, 10)})`;
+}
+
+// A tx recorded as sent by an earlier run: mined, reverted, or gone from the mempool
+async function settleSent(provider: Provider, entry: DistributeEntry): Promise<DistributeEntry> {
+  if (!entry.txHash) return { ...entry, status: "failed", error: "sent without a hash" };
+  const receipt = await provider.getTransactionReceipt(entry.txHash);
+  const now = new Date().toISOString();
+  if (receipt) {
+    return receipt.status === 1
+      ? { ...entry, status: "mined", updatedAt: now }
+      : { ...entry, status: "failed", error: "claim reverted", updatedAt: now };
+  }
+  if (await provider.getTransaction(entry.txHash)) return entry;
+  return { ...entry, status: "failed", error: "transaction dropped", updatedAt: now };
+}
+
+export async function distributeClaims(payload: ProofsPayload, opts: DistributeOptions = {}): Promise<DistributeResult> {
+  const rpcUrl = opts.rpcUrl ?? process.env.NEXT_PUBLIC_RPC_URL;
+  const distributor = opts.distributor ?? (process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined);
+  const senderKey = opts.senderKey ?? process.env.DISTRIBUTE_PRIVATE_KEY;
+  const method = opts.method ?? "sequential";
+  const batchSize = Math.max(1, opts.batchSize ?? Number(process.env.DISTRIBUTE_BATCH_SIZE ?? 50));
+  const waitMs = opts.waitMs ?? Number(process.env.DISTRIBUTE_WAIT_MS ?? 120_000);
+  if (!rpcUrl || !distributor) return { ok: false, error: "Missing RPC/DISTRIBUTOR env" };
+  if (!senderKey && !opts.dryRun) return { ok: false, error: "DISTRIBUTE_PRIVATE_KEY is not set" };
+
+  const provider = new JsonRpcProvider(rpcUrl);
+  const mode = payload.mode ?? "round";
+  const dist = new Contract(distributor, READ_ABI, provider);
+
+  // Proofs only verify against the live root
+  const [onchainRoot, onchainRound] = (await Promise.all([dist.merkleRoot(), dist.round()])) as [string, bigint];
+  if (onchainRoot.toLowerCase() !== payload.root.toLowerCase() || (mode === "round" && onchainRound !== BigInt(payload.round))) {
+    return { ok: false, error: `Payload for round ${payload.round} is not the live root on-chain` };
+  }
+
+  const multicall = opts.multicall ?? (process.env.MULTICALL3_ADDRESS as `0x${string}` | undefined) ?? MULTICALL3_ADDRESS;
+  if (method === "multicall" && (await provider.getCode(multicall)) === "0x") {
+    return { ok: false, error: `No Multicall3 contract at ${multicall}` };
+  }
+
+  const wallet = senderKey ? new ethers.Wallet(senderKey, provider) : undefined;
+  const from = wallet ? (wallet.address as `0x${string}`) : undefined;
+  const reportKey = distributeReportKey(payload.round);
+
+  const run = async (): Promise<DistributeResult> => {
+    const previous = await readJson<DistributeReport>(reportKey);
+    // A report for another root of the same round (a republish) says nothing about these proofs
+    const resumed = previous && previous.root.toLowerCase() === payload.root.toLowerCase() ? previous : undefined;
+    const byAccount = new Map<string, DistributeEntry>();
+    for (const e of resumed?.entries ?? []) {
+      byAccount.set(e.account.toLowerCase(), e.status === "sent" ? await settleSent(provider, e) : e);
+    }
+
+    const report: DistributeReport = {
+      version: 1,
+      mode,
+      round: payload.round,
+      root: payload.root,
+      distributor,
+      from: from ?? resumed?.from ?? (ethers.ZeroAddress as `0x${string}`),
+      method,
+      startedAt: resumed?.startedAt ?? new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      entries: [],
+    };
+    const save = async () => {
+      report.entries = [...byAccount.values()];
+      report.updatedAt = new Date().toISOString();
+      if (!opts.dryRun) await writeJson(reportKey, JSON.stringify(report, null, 2));
+    };
+    const mark = (claim: Claim, status: DistributeStatus, extra: Partial<DistributeEntry> = {}) => {
+      byAccount.set(claim.account.toLowerCase(), {
+        account: claim.account,
+        amount: claim.amount,
+        status,
+        ...extra,
+        updatedAt: new Date().toISOString(),
+      });
+    };
+
+    // Open: not mined, not still in flight, and not already claimed by its owner
+    const open: Claim[] = [];
+    for (const claim of payload.claims) {
+      const prior = byAccount.get(claim.account.toLowerCase());
+      if (prior && prior.status !== "failed") continue;
+      const claimed = mode === "cumulative"
+        ? ((await dist.claimed(claim.account)) as bigint) >= BigInt(claim.amount)
+        : ((await dist.isClaimed(payload.round, claim.account)) as boolean);
+      if (claimed) mark(claim, "skipped", { error: "already claimed" });
+      else open.push(claim);
+    }
+    const toSend = opts.limit !== undefined ? open.slice(0, opts.limit) : open;
+
+    if (opts.dryRun || !wallet) {
+      await save();
+      return {
+        ok: true,
+        dryRun: true,
+        round: payload.round,
+        root: payload.root,
+        method,
+        reportKey,
+        counts: countEntries(report.entries),
+        toSend: toSend.map((c) => c.account),
+      };
+    }
+
+    const signerDist = new Contract(distributor, mode === "cumulative" ? CUMULATIVE_CLAIM_ABI : ROUND_CLAIM_ABI, wallet);
+    const claimArgs = (c: Claim) => mode === "cumulative"
+      ? [c.account, BigInt(c.amount), c.proof]
+      : [BigInt(payload.round), c.account, BigInt(c.amount), c.proof];
+
+    const settle = async (claim: Claim, tx: ethers.ContractTransactionResponse) => {
+      const base = { txHash: tx.hash as `0x${string}`, nonce: tx.nonce };
+      try {
+        const receipt = await tx.wait(1, waitMs);
+        if (receipt && receipt.status === 1) mark(claim, "mined", base);
+        else mark(claim, "failed", { ...base, error: "claim reverted" });
+      } catch (e) {
+        if ((e as { code?: string }).code === "TIMEOUT") return;   // stays "sent"
+        mark(claim, "failed", { ...base, error: revertReason(e) });
+      }
+    };
+
+    // One tx per claim. Nonces are assigned locally from the pending count, so the batch
+    // goes out back to back; a claim that fails its gas estimate never takes a nonce.
+    const sendSequentialBatch = async (batch: Claim[]) => {
+      let nonce = await provider.getTransactionCount(from!, "pending");
+      const sent: { claim: Claim; tx: ethers.ContractTransactionResponse }[] = [];
+      for (const claim of batch) {
+        const args = claimArgs(claim);
+        let gasLimit: bigint;
+        try {
+          gasLimit = await signerDist.claim.estimateGas(...args);
+        } catch (e) {
+          mark(claim, "failed", { error: revertReason(e) });
+          continue;
+        }
+        try {
+          const tx = (await signerDist.claim(...args, { nonce, gasLimit })) as ethers.ContractTransactionResponse;
+          mark(claim, "sent", { txHash: tx.hash as `0x${string}`, nonce });
+          sent.push({ claim, tx });
+          nonce++;
+        } catch (e) {
+          mark(claim, "failed", { error: revertReason(e) });
+          // the node may or may not have taken the nonce; ask again
+          nonce = await provider.getTransactionCount(from!, "pending");
+        }
+      }
+      await save();
+      for (const { claim, tx } of sent) await settle(claim, tx);
+    };
+
+    // One aggregate3 tx per batch. A static call first drops the claims that would revert.
+    const sendMulticallBatch = async (batch: Claim[]) => {
+      const mc = new Contract(multicall, MULTICALL3_ABI, wallet);
+      const calls = batch.map((c) => ({
+        target: distributor!,
+        allowFailure: true,
+        callData: signerDist.interface.encodeFunctionData("claim", claimArgs(c)),
+      }));
+      const preview = (await mc.aggregate3.staticCall(calls)) as { success: boolean; returnData: string }[];
+      const keep: number[] = [];
+      preview.forEach((r, j) => {
+        if (r.success) keep.push(j);
+        else mark(batch[j], "failed", { error: decodeReturnReason(r.returnData) });
+      });
+      if (keep.length === 0) return;
+
+      const nonce = await provider.getTransactionCount(from!, "pending");
+      let tx: ethers.ContractTransactionResponse;
+      try {
+        tx = (await mc.aggregate3(keep.map((j) => calls[j]), { nonce })) as ethers.ContractTransactionResponse;
+      } catch (e) {
+        for (const j of keep) mark(batch[j], "failed", { error: revertReason(e) });
+        return;
+      }
+      for (const j of keep) mark(batch[j], "sent", { txHash: tx.hash as `0x${string}`, nonce });
+      await save();
+
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        receipt = await tx.wait(1, waitMs);
+      } catch (e) {
+        if ((e as { code?: string }).code === "TIMEOUT") return;   // stays "sent"; the next run settles it
+        for (const j of keep) mark(batch[j], "failed", { error: revertReason(e), txHash: tx.hash as `0x${string}` });
+        return;
+      }
+      // allowFailure hides sub-call reverts; a Claimed log is what proves each one went through
+      const paid = new Set<string>();
+      for (const log of receipt?.logs ?? []) {
+        if (log.address.toLowerCase() !== distributor!.toLowerCase()) continue;
+        const parsed = dist.interface.parseLog(log);
+        if (parsed?.name === "Claimed") paid.add((parsed.args.account as string).toLowerCase());
+      }
+      for (const j of keep) {
+        const c = batch[j];
+        if (paid.has(c.account.toLowerCase())) mark(c, "mined", { txHash: tx.hash as `0x${string}`, nonce });
+        else mark(c, "failed", { txHash: tx.hash as `0x${string}`, nonce, error: "claim reverted inside the batch" });
+      }
+    };
+
+    for (let i = 0; i < toSend.length; i += batchSize) {
+      const batch = toSend.slice(i, i + batchSize);
+      if (method === "multicall") {
+        await sendMulticallBatch(batch);
+      } else {
+        await sendSequentialBatch(batch);
+      }
+      await save();
+    }
+    await save();
+
+    const counts = countEntries(report.entries);
+    return {
+      ok: counts.failed === 0 && counts.sent === 0,
+      dryRun: false,
+      round: payload.round,
+      root: payload.root,
+      method,
+      from,
+      reportKey,
+      counts,
+      report,
+    };
+
+  };
+
+  if (opts.dryRun) return run();
+  const outcome = await withLock(DISTRIBUTE_LOCK_KEY, LOCK_TTL_MS, run, `distribute round ${payload.round}`);
+  if (!outcome.acquired) {
+    return { ok: false, error: "Another distribute run holds the lease", holder: outcome.holder?.note };
+  }
+  return outcome.value;
+}
@@ -0,0 +1,182 @@
+import { ethers, type Provider } from "ethers";
+import { readJson, writeJson } from "@/lib/store";
+import { getLogsAdaptive } from "@/lib/rounds";
+
+// Incremental index of the distributor's RootUpdated and Claimed events, checkpointed
+// like the mint indexer (lib/indexer.ts): confirmed blocks only, rewinds on reorgs.
+// Both distributors emit the same two events, so one index serves either mode.
+
+export const DISTRIBUTOR_EVENTS_KEY = "claims/distributor-events.json";
+
+const EVENTS = new ethers.Interface([
+  "event RootUpdated(bytes32 indexed newRoot, uint64 indexed newRound)",
+  "event Claimed(uint64 indexed round, address indexed account, uint256 amount)",
+]);
+const ROOT_UPDATED = EVENTS.getEvent("RootUpdated")!.topicHash;
+const CLAIMED = EVENTS.getEvent("Claimed")!.topicHash;
+const ZERO32 = "0x" + "0".repeat(64);
+
+type EventRef = {
+  blockNumber: number;
+  txHash: `0x${string}`;
+  logIndex: number;
+  timestamp: number;
+};
+
+export type RootEvent = EventRef & { round: number; root: `0x${string}` };
+export type ClaimEvent = EventRef & { round: number; account: `0x${string}`; amount: string };
+
+export type DistributorEventsState = {
+  version: 1;
+  distributor: `0x${string}`;
+  lastBlock: number;
+  lastBlockHash: `0x${string}`;
+  chunkSize: number;
+  roots: RootEvent[];     // oldest first
+  claims: ClaimEvent[];   // oldest first
+};
+
+export type EventsSyncOptions = {
+  confirmations?: number;
+  fromBlock?: number;         // first block to scan on the very first run (deployment)
+  maxBlocksPerRun?: number;
+  maxReorgDepth?: number;
+};
+
+export async function loadDistributorEvents(key = DISTRIBUTOR_EVENTS_KEY): Promise<DistributorEventsState | undefined> {
+  return readJson<DistributorEventsState>(key);
+}
+
+export async function saveDistributorEvents(state: DistributorEventsState, key = DISTRIBUTOR_EVENTS_KEY): Promise<string> {
+  return writeJson(key, JSON.stringify(state));
+}
+
+export async function syncDistributorEvents(
+  provider: Provider,
+  distributor: `0x${string}`,
+  prev: DistributorEventsState | undefined,
+  opts: EventsSyncOptions = {}
+): Promise<{ state: DistributorEventsState; caughtUp: boolean; warn: string[] }> {
+  const confirmations = opts.confirmations ?? Number(process.env.INDEXER_CONFIRMATIONS ?? 3);
+  const firstBlock = opts.fromBlock ?? Number(process.env.DISTRIBUTOR_DEPLOY_BLOCK ?? 0);
+  const maxBlocksPerRun = opts.maxBlocksPerRun ?? Number(process.env.EVENTS_MAX_BLOCKS ?? 50_000);
+  const maxReorgDepth = opts.maxReorgDepth ?? 64;
+  const warn: string[] = [];
+
+  const head = await provider.getBlockNumber();
+  const safeHead = Math.max(0, head - confirmations);
+
+  let state: DistributorEventsState =
+    prev && prev.distributor.toLowerCase() === distributor.toLowerCase()
+      ? { ...prev, roots: [...prev.roots], claims: [...prev.claims] }
+      : {
+          version: 1,
+          distributor,
+          lastBlock: firstBlock - 1,
+          lastBlockHash: ZERO32 as `0x${string}`,
+          chunkSize: Number(process.env.INDEXER_CHUNK_SIZE ?? 10),
+          roots: [],
+          claims: [],
+        };
+
+  if (state.lastBlockHash !== ZERO32 && state.lastBlock >= 0) {
+    const block = await provider.getBlock(state.lastBlock);
+    if (!block || block.hash !== state.lastBlockHash) {
+      const rewindTo = Math.max(firstBlock - 1, state.lastBlock - maxReorgDepth);
+      warn.push(`Event checkpoint block ${state.lastBlock} was reorged; rewinding to ${rewindTo}`);
+      state = {
+        ...state,
+        lastBlock: rewindTo,
+        lastBlockHash: ZERO32 as `0x${string}`,
+        roots: state.roots.filter((e) => e.blockNumber <= rewindTo),
+        claims: state.claims.filter((e) => e.blockNumber <= rewindTo),
+      };
+    }
+  }
+
+  const fromBlock = state.lastBlock + 1;
+  const toBlock = Math.min(safeHead, fromBlock + maxBlocksPerRun - 1);
+  if (toBlock < fromBlock) return { state, caughtUp: true, warn };
+
+  const { logs, chunk } = await getLogsAdaptive(
+    provider,
+    { address: distributor, topics: [[ROOT_UPDATED, CLAIMED]] },
+    fromBlock,
+    toBlock,
+    { chunk: state.chunkSize }
+  );
+
+  const timestamps = new Map<number, number>();
+  async function timestampOf(n: number) {
+    let ts = timestamps.get(n);
+    if (ts === undefined) {
+      const block = await provider.getBlock(n);
+      if (!block) throw new Error(`Block ${n} not found`);
+      ts = block.timestamp;
+      timestamps.set(n, ts);
+    }
+    return ts;
+  }
+
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  for (const log of logs) {
+    const parsed = EVENTS.parseLog(log);
+    if (!parsed) continue;
+    const ref: EventRef = {
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash as `0x${string}`,
+      logIndex: log.index,
+      timestamp: await timestampOf(log.blockNumber),
+    };
+    if (parsed.name === "RootUpdated") {
+      state.roots.push({ ...ref, round: Number(parsed.args.newRound), root: parsed.args.newRoot });
+    } else {
+      state.claims.push({
+        ...ref,
+        round: Number(parsed.args.round),
+        account: ethers.getAddress(parsed.args.account) as `0x${string}`,
+        amount: (parsed.args.amount as bigint).toString(),
+      });
+    }
+  }
+
+  const block = await provider.getBlock(toBlock);
+  if (!block?.hash) throw new Error(`Block ${toBlock} not found`);
+  state.lastBlock = toBlock;
+  state.lastBlockHash = block.hash as `0x${string}`;
+  state.chunkSize = chunk;
+
+  const caughtUp = toBlock >= safeHead;
+  if (!caughtUp) warn.push(`Event index behind: processed up to ${toBlock}, safe head is ${safeHead}`);
+  return { state, caughtUp, warn };
+}
+
+let cached: { state: DistributorEventsState; at: number } | undefined;
+let inflight: Promise<{ state: DistributorEventsState; warn: string[] }> | undefined;
+
+// For read endpoints: at most one sync per maxAgeMs per process, persisted when it advanced
+export async function currentDistributorEvents(
+  provider: Provider,
+  distributor: `0x${string}`,
+  maxAgeMs = Number(process.env.EVENTS_SYNC_SECONDS ?? 15) * 1000
+): Promise<{ state: DistributorEventsState; warn: string[] }> {
+  if (cached && cached.state.distributor.toLowerCase() === distributor.toLowerCase() && Date.now() - cached.at < maxAgeMs) {
+    return { state: cached.state, warn: [] };
+  }
+  inflight ??= (async () => {
+    const prev = cached?.state ?? (await loadDistributorEvents());
+    const { state, warn } = await syncDistributorEvents(provider, distributor, prev);
+    if (state.lastBlock !== prev?.lastBlock || state.lastBlockHash !== prev?.lastBlockHash) {
+      try {
+        await saveDistributorEvents(state);
+      } catch (e) {
+        warn.push(`Could not save event checkpoint: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    cached = { state, at: Date.now() };
+    return { state, warn };
+  })().finally(() => {
+    inflight = undefined;
+  });
+  return inflight;
+}
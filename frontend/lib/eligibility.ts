@@ -0,0 +1,75 @@
+import type { Provider } from "ethers";
+import { readJson, writeJson } from "@/lib/store";
+import { holderCounts, snapshotHolders, type HolderSnapshot } from "@/lib/holders";
+import { parseRewardPolicy, type RewardPolicy } from "@/lib/rewards";
+
+// Who is eligible in a round, and under which reward policy.
+//   minters: accounts that minted during the round (the indexer's view)
+//   holders: owners of the NFT at the round's last block, from a Transfer replay
+// ELIGIBILITY and REWARD_POLICY set the defaults; BUILDER_SCHEDULE switches them from a round on:
+//   [{"fromRound": 490100, "eligibility": "holders", "policy": {...}}]
+
+export type EligibilitySource = "minters" | "holders";
+
+export type RoundConfig = {
+  fromRound: number;
+  eligibility?: EligibilitySource;
+  policy?: RewardPolicy;
+};
+
+export type ResolvedRoundConfig = {
+  eligibility: EligibilitySource;
+  policy: RewardPolicy;
+};
+
+export const HOLDERS_STATE_KEY = "claims/holders.json";
+
+function parseEligibility(raw: string | undefined): EligibilitySource {
+  if (raw === undefined || raw === "" || raw === "minters") return "minters";
+  if (raw === "holders") return raw;
+  throw new Error(`unknown eligibility source "${raw}"`);
+}
+
+// Throws on malformed config so the builder never publishes under a half-read schedule
+export function loadBuilderConfig(env: Record<string, string | undefined> = process.env) {
+  const defaults: ResolvedRoundConfig = {
+    eligibility: parseEligibility(env.ELIGIBILITY),
+    policy: parseRewardPolicy(env.REWARD_POLICY),
+  };
+  const schedule = env.BUILDER_SCHEDULE ? (JSON.parse(env.BUILDER_SCHEDULE) as RoundConfig[]) : [];
+  if (!Array.isArray(schedule)) throw new Error("BUILDER_SCHEDULE must be a JSON array");
+  for (const entry of schedule) {
+    if (!Number.isSafeInteger(entry.fromRound) || entry.fromRound < 0) throw new Error("BUILDER_SCHEDULE: fromRound must be a round number");
+    if (entry.eligibility !== undefined) parseEligibility(entry.eligibility);
+    if (entry.policy !== undefined) parseRewardPolicy(JSON.stringify(entry.policy));
+  }
+  return { defaults, schedule: [...schedule].sort((a, b) => a.fromRound - b.fromRound) };
+}
+
+// Latest schedule entry that has started by `round`, over the defaults
+export function configForRound(
+  round: number,
+  config: { defaults: ResolvedRoundConfig; schedule: RoundConfig[] }
+): ResolvedRoundConfig {
+  const entry = [...config.schedule].reverse().find((e) => e.fromRound <= round);
+  return {
+    eligibility: entry?.eligibility ?? config.defaults.eligibility,
+    policy: entry?.policy ?? config.defaults.policy,
+  };
+}
+
+// Holder counts at a block. The cached snapshot is only advanced, never rewound,
+// so replaying an old round does not throw away the newer checkpoint.
+export async function holderCountsAt(
+  provider: Provider,
+  nft: `0x${string}`,
+  block: number,
+  persist: boolean
+): Promise<{ counts: Map<`0x${string}`, number>; snapshot: HolderSnapshot }> {
+  const prev = await readJson<HolderSnapshot>(HOLDERS_STATE_KEY);
+  const snapshot = await snapshotHolders(provider, nft, block, prev);
+  if (persist && (!prev || snapshot.block >= prev.block || prev.nft.toLowerCase() !== nft.toLowerCase())) {
+    await writeJson(HOLDERS_STATE_KEY, JSON.stringify(snapshot));
+  }
+  return { counts: holderCounts(snapshot), snapshot };
+}
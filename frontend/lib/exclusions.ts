@@ -0,0 +1,101 @@
+import { ethers, type Provider } from "ethers";
+
+// Filters applied to a round's eligible accounts before any leaf is built.
+//   REWARD_DENYLIST   never eligible (deployer, royalty receiver, known sybils)
+//   REWARD_ALLOWLIST  when set, only these accounts are eligible; also exempts them from the contract filter
+//   EXCLUDE_CONTRACTS accounts with bytecode are dropped (EIP-7702 delegated EOAs are kept)
+// Lists are comma separated; each entry may carry a note: "0xabc…:deployer,0xdef…:royalty".
+// Ethers-only with relative imports, like lib/rounds.ts.
+
+export type ExclusionReason = "denylist" | "not-allowlisted" | "contract";
+
+export type Exclusion = {
+  account: `0x${string}`;
+  reason: ExclusionReason;
+  note?: string;   // the list entry's note, if any
+  count: number;   // NFTs the account would have been rewarded for
+};
+
+export type ExclusionConfig = {
+  deny: Map<string, string | undefined>;   // lowercased account → note
+  allow?: Map<string, string | undefined>; // undefined: everyone not denied is eligible
+  excludeContracts: boolean;
+};
+
+const DELEGATION_PREFIX = "0xef0100"; // EIP-7702 delegation designator
+const CODE_BATCH = 20;
+
+function parseList(name: string, raw: string | undefined): Map<string, string | undefined> {
+  const out = new Map<string, string | undefined>();
+  for (const item of (raw ?? "").split(",")) {
+    const entry = item.trim();
+    if (!entry) continue;
+    const sep = entry.indexOf(":");
+    const account = (sep === -1 ? entry : entry.slice(0, sep)).trim();
+    const note = sep === -1 ? undefined : entry.slice(sep + 1).trim() || undefined;
+    if (!ethers.isAddress(account)) throw new Error(`${name}: "${account}" is not an address`);
+    out.set(account.toLowerCase(), note);
+  }
+  return out;
+}
+
+// Throws on malformed entries so a typo cannot silently let an account through
+export function loadExclusionConfig(env: Record<string, string | undefined> = process.env): ExclusionConfig {
+  const allow = parseList("REWARD_ALLOWLIST", env.REWARD_ALLOWLIST);
+  return {
+    deny: parseList("REWARD_DENYLIST", env.REWARD_DENYLIST),
+    allow: allow.size ? allow : undefined,
+    excludeContracts: env.EXCLUDE_CONTRACTS === "1" || env.EXCLUDE_CONTRACTS === "true",
+  };
+}
+
+export function isExclusionActive(config: ExclusionConfig) {
+  return config.deny.size > 0 || !!config.allow || config.excludeContracts;
+}
+
+async function contractAccounts(provider: Provider, accounts: `0x${string}`[], blockTag?: number) {
+  const found = new Set<`0x${string}`>();
+  for (let i = 0; i < accounts.length; i += CODE_BATCH) {
+    const batch = accounts.slice(i, i + CODE_BATCH);
+    const codes = await Promise.all(batch.map((a) => provider.getCode(a, blockTag)));
+    codes.forEach((code, j) => {
+      if (code !== "0x" && !code.toLowerCase().startsWith(DELEGATION_PREFIX)) found.add(batch[j]);
+    });
+  }
+  return found;
+}
+
+// counts: account → NFTs. Returns the counts that remain and why each other account was dropped.
+// blockTag pins the contract check, so a historical rebuild sees the code as of its round.
+export async function applyExclusions(
+  provider: Provider,
+  counts: Map<`0x${string}`, number>,
+  config: ExclusionConfig,
+  blockTag?: number
+): Promise<{ counts: Map<`0x${string}`, number>; excluded: Exclusion[] }> {
+  const kept = new Map<`0x${string}`, number>();
+  const excluded: Exclusion[] = [];
+  const toCheck: `0x${string}`[] = [];
+
+  for (const [account, count] of counts) {
+    const key = account.toLowerCase();
+    if (config.deny.has(key)) {
+      excluded.push({ account, reason: "denylist", note: config.deny.get(key), count });
+    } else if (config.allow && !config.allow.has(key)) {
+      excluded.push({ account, reason: "not-allowlisted", count });
+    } else {
+      kept.set(account, count);
+      if (config.excludeContracts && !config.allow) toCheck.push(account);
+    }
+  }
+
+  if (toCheck.length) {
+    for (const account of await contractAccounts(provider, toCheck, blockTag)) {
+      excluded.push({ account, reason: "contract", count: kept.get(account)! });
+      kept.delete(account);
+    }
+  }
+
+  excluded.sort((a, b) => (a.account.toLowerCase() < b.account.toLowerCase() ? -1 : 1));
+  return { counts: kept, excluded };
+}
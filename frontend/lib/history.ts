@@ -0,0 +1,140 @@
+import { readArchivedRound, readRoundIndex } from "@/lib/archive";
+import { roundOf } from "@/lib/rounds";
+import type { ClaimsMode, ProofsPayload } from "@/lib/merkle";
+import type { ClaimEvent, DistributorEventsState } from "@/lib/distributorEvents";
+
+// One wallet's rewards across rounds: what each archived round entitled it to,
+// joined with the distributor's Claimed and RootUpdated events.
+//   claimed     a Claimed event exists for the round (round mode) or covers it (cumulative)
+//   claimable   round mode: the live on-chain round with the archived root; cumulative: not yet claimed
+//   expired     round mode: the distributor moved on to a later round before it was claimed
+//   unpublished the archived root never became the round's final on-chain root
+
+export type RoundStatus = "claimed" | "claimable" | "expired" | "unpublished";
+
+type ClaimRef = Pick<ClaimEvent, "round" | "txHash" | "amount" | "timestamp" | "blockNumber">;
+
+export type HistoryRound = {
+  round: number;
+  amount: string;             // earned in this round
+  root?: `0x${string}`;       // archived root; absent for rounds only known from a Claimed event
+  status: RoundStatus;
+  claim?: ClaimRef;           // round mode only: cumulative claims are not tied to one round
+};
+
+export type RewardHistory = {
+  account: `0x${string}`;
+  mode: ClaimsMode;
+  onchainRound?: number;
+  indexedTo: number;
+  received: string;           // sum of this account's Claimed amounts
+  rounds: HistoryRound[];     // newest first
+  claims: ClaimRef[];         // every Claimed event for the account, newest first
+};
+
+type ArchivedEntitlements = {
+  mode: ClaimsMode;
+  root: `0x${string}`;
+  earned: Map<string, string>;   // lowercased account → amount earned in the round
+  total: Map<string, string>;    // lowercased account → leaf amount (cumulative: total to date)
+};
+
+// Closed rounds never change once archived, so they are parsed once per process
+const closedRounds = new Map<number, ArchivedEntitlements | null>();
+
+function entitlementsOf(payload: ProofsPayload): ArchivedEntitlements {
+  const mode = payload.mode ?? "round";
+  const earned = new Map<string, string>();
+  const total = new Map<string, string>();
+  for (const c of payload.claims) {
+    const key = c.account.toLowerCase();
+    total.set(key, c.amount);
+    // Cumulative leaves hold totals; only accounts with a reward breakdown earned in this round
+    if (mode === "round") earned.set(key, c.amount);
+    else if (c.reward) earned.set(key, c.reward.amount);
+  }
+  return { mode, root: payload.root, earned, total };
+}
+
+async function archivedRound(round: number, liveRound: number): Promise<ArchivedEntitlements | null> {
+  if (round < liveRound && closedRounds.has(round)) return closedRounds.get(round)!;
+  const payload = await readArchivedRound(round);
+  const parsed = payload ? entitlementsOf(payload) : null;
+  if (round < liveRound) closedRounds.set(round, parsed);
+  return parsed;
+}
+
+export async function accountHistory(
+  account: `0x${string}`,
+  events: DistributorEventsState,
+  onchainRound?: number,
+  maxRounds = Number(process.env.HISTORY_MAX_ROUNDS ?? 720)
+): Promise<RewardHistory> {
+  const key = account.toLowerCase();
+  const liveRound = roundOf(Math.floor(Date.now() / 1000));
+
+  // Final on-chain root of each round: the last RootUpdated for it
+  const finalRoot = new Map<number, string>();
+  for (const e of events.roots) finalRoot.set(e.round, e.root.toLowerCase());
+  const latestRound = onchainRound ?? events.roots.at(-1)?.round;
+
+  const claims: ClaimRef[] = events.claims
+    .filter((e) => e.account.toLowerCase() === key)
+    .map(({ round, txHash, amount, timestamp, blockNumber }) => ({ round, txHash, amount, timestamp, blockNumber }));
+  const claimByRound = new Map(claims.map((e) => [e.round, e]));
+  const received = claims.reduce((sum, e) => sum + BigInt(e.amount), 0n);
+
+  const index = await readRoundIndex();
+  const archived = index.rounds.slice(0, maxRounds);
+  const mode = archived[0]?.mode ?? "round";
+
+  const rounds: HistoryRound[] = [];
+  const seen = new Set<number>();
+  for (const entry of archived) {
+    const round = await archivedRound(entry.round, liveRound);
+    const amount = round?.earned.get(key);
+    if (!round || amount === undefined) continue;
+    seen.add(entry.round);
+
+    const claim = round.mode === "round" ? claimByRound.get(entry.round) : undefined;
+    let status: RoundStatus;
+    if (round.mode === "cumulative") {
+      // One claim pays every round up to that total, so a round is settled once received covers it
+      status = received >= BigInt(round.total.get(key) ?? "0") ? "claimed" : "claimable";
+    } else if (claim) {
+      status = "claimed";
+    } else if (finalRoot.get(entry.round) !== round.root.toLowerCase()) {
+      status = "unpublished";
+    } else if (latestRound !== undefined && entry.round < latestRound) {
+      status = "expired";
+    } else {
+      status = "claimable";
+    }
+
+    rounds.push({
+      round: entry.round,
+      amount,
+      root: round.root,
+      status,
+      ...(claim ? { claim } : {}),
+    });
+  }
+
+  // Round mode: claims whose round is no longer (or never was) archived are still rounds it earned
+  if (mode === "round") {
+    for (const claim of claims) {
+      if (!seen.has(claim.round)) rounds.push({ round: claim.round, amount: claim.amount, status: "claimed", claim });
+    }
+  }
+
+  rounds.sort((a, b) => b.round - a.round);
+  return {
+    account,
+    mode,
+    onchainRound,
+    indexedTo: events.lastBlock,
+    received: received.toString(),
+    rounds,
+    claims: [...claims].reverse(),
+  };
+}
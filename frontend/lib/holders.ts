@@ -0,0 +1,67 @@
+import { ethers, type Provider } from "ethers";
+import { getLogsAdaptive, type ChunkOptions } from "./rounds";
+
+// Owner snapshot of the NFT at a block, built by replaying every Transfer since deployment.
+// A previous snapshot can be passed in to only replay the blocks after it.
+// Ethers-only with relative imports, like lib/rounds.ts.
+
+const TRANSFER_SIG = ethers.id("Transfer(address,address,uint256)");
+const ZERO = ethers.ZeroAddress.toLowerCase();
+
+export type HolderSnapshot = {
+  version: 1;
+  nft: `0x${string}`;
+  block: number;                                // owners as of the end of this block
+  blockHash: `0x${string}`;
+  owners: Record<string, `0x${string}`>;        // tokenId → owner (burned tokens removed)
+};
+
+export type SnapshotOptions = ChunkOptions & {
+  deployBlock?: number;                         // first block that can hold a Transfer
+};
+
+export function transferLogsFilter(nft: string) {
+  return { address: nft, topics: [TRANSFER_SIG] };
+}
+
+// prev is reusable when it is for the same NFT, not past atBlock, and its block is still canonical
+async function resumable(provider: Provider, nft: string, atBlock: number, prev?: HolderSnapshot) {
+  if (!prev || prev.nft.toLowerCase() !== nft.toLowerCase() || prev.block > atBlock) return false;
+  const block = await provider.getBlock(prev.block);
+  return !!block && block.hash === prev.blockHash;
+}
+
+export async function snapshotHolders(
+  provider: Provider,
+  nft: `0x${string}`,
+  atBlock: number,
+  prev?: HolderSnapshot,
+  opts: SnapshotOptions = {}
+): Promise<HolderSnapshot> {
+  const resume = await resumable(provider, nft, atBlock, prev);
+  const owners: Record<string, `0x${string}`> = resume ? { ...prev!.owners } : {};
+  const fromBlock = resume ? prev!.block + 1 : opts.deployBlock ?? Number(process.env.NFT_DEPLOY_BLOCK ?? 0);
+
+  if (fromBlock <= atBlock) {
+    const { logs } = await getLogsAdaptive(provider, transferLogsFilter(nft), fromBlock, atBlock, opts);
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of logs) {
+      if (log.topics.length < 4) continue; // not an ERC-721 Transfer
+      const to = ("0x" + log.topics[2].slice(26)).toLowerCase();
+      const tokenId = BigInt(log.topics[3]).toString();
+      if (to === ZERO) delete owners[tokenId];
+      else owners[tokenId] = ethers.getAddress(to) as `0x${string}`;
+    }
+  }
+
+  const block = await provider.getBlock(atBlock);
+  if (!block?.hash) throw new Error(`Block ${atBlock} not found`);
+  return { version: 1, nft, block: atBlock, blockHash: block.hash as `0x${string}`, owners };
+}
+
+// NFTs held per account, keyed in checksum form
+export function holderCounts(snapshot: HolderSnapshot): Map<`0x${string}`, number> {
+  const counts = new Map<`0x${string}`, number>();
+  for (const owner of Object.values(snapshot.owners)) counts.set(owner, (counts.get(owner) ?? 0) + 1);
+  return counts;
+}
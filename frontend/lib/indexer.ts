@@ -0,0 +1,224 @@
+import type { Provider } from "ethers";
+import { readJson, writeJson } from "@/lib/store";
+import { decodeMintLog, getLogsAdaptive, mintCounts, mintLogsFilter, roundOf, uniqueMinters, type RoundMint } from "@/lib/rounds";
+
+// Incremental mint-log indexer. Persists the last processed block, only
+// indexes blocks that are `confirmations` deep, rewinds when the checkpoint
+// block was reorged out, and sizes eth_getLogs ranges to what the RPC accepts.
+
+export const INDEXER_STATE_KEY = "claims/indexer.json";
+
+const ZERO32 = "0x" + "0".repeat(64);
+
+export type MintEvent = RoundMint & {
+  timestamp: number;
+  round: number;
+};
+
+export type IndexerState = {
+  version: 1;
+  nft: `0x${string}`;
+  lastBlock: number;          // last block fully processed (inclusive)
+  lastBlockHash: `0x${string}`;
+  chunkSize: number;          // last range size the RPC accepted
+  mints: MintEvent[];
+};
+
+export type IndexerOptions = {
+  confirmations?: number;
+  initialLookback?: number;   // blocks to scan on the very first run
+  maxBlocksPerRun?: number;
+  minChunk?: number;
+  maxChunk?: number;
+  maxReorgDepth?: number;
+  retainRounds?: number;      // prune mints older than this many rounds
+};
+
+export type SyncResult = {
+  state: IndexerState;
+  fromBlock: number;
+  toBlock: number;
+  caughtUp: boolean;
+  reorged: boolean;
+  headRound: number;          // round of the newest confirmed block
+  warn: string[];
+};
+
+export function mintersForRound(state: IndexerState, round: number): `0x${string}`[] {
+  return uniqueMinters(state.mints.filter((m) => m.round === round));
+}
+
+export function mintCountsForRound(state: IndexerState, round: number): Map<`0x${string}`, number> {
+  return mintCounts(state.mints.filter((m) => m.round === round));
+}
+
+// round → number of indexed mint events
+export function mintsPerRound(state: IndexerState): Map<number, number> {
+  const out = new Map<number, number>();
+  for (const m of state.mints) out.set(m.round, (out.get(m.round) ?? 0) + 1);
+  return out;
+}
+
+// Mints in `next` that `prev` did not hold, from rounds that closed before `headRound`:
+// no earlier head-round build can have counted them
+export function lateMints(prev: IndexerState | undefined, next: IndexerState, headRound: number): MintEvent[] {
+  const known = new Set((prev?.mints ?? []).map((m) => `${m.txHash}:${m.logIndex}`));
+  return next.mints.filter((m) => m.round < headRound && !known.has(`${m.txHash}:${m.logIndex}`));
+}
+
+export async function loadIndexerState(key = INDEXER_STATE_KEY): Promise<IndexerState | undefined> {
+  return readJson<IndexerState>(key);
+}
+
+export async function saveIndexerState(state: IndexerState, key = INDEXER_STATE_KEY): Promise<string> {
+  return writeJson(key, JSON.stringify(state));
+}
+
+export async function syncMints(
+  provider: Provider,
+  nft: `0x${string}`,
+  prev: IndexerState | undefined,
+  opts: IndexerOptions = {}
+): Promise<SyncResult> {
+  const confirmations = opts.confirmations ?? Number(process.env.INDEXER_CONFIRMATIONS ?? 3);
+  const initialLookback = opts.initialLookback ?? Number(process.env.BLOCKS_PER_HOUR ?? 300);
+  const maxBlocksPerRun = opts.maxBlocksPerRun ?? Number(process.env.INDEXER_MAX_BLOCKS ?? 2000);
+  const minChunk = opts.minChunk ?? 1;
+  const maxChunk = opts.maxChunk ?? Number(process.env.INDEXER_MAX_CHUNK ?? 2000);
+  const maxReorgDepth = opts.maxReorgDepth ?? 64;
+  const retainRounds = opts.retainRounds ?? 48;
+  const warn: string[] = [];
+
+  const head = await provider.getBlockNumber();
+  const safeHead = Math.max(0, head - confirmations);
+
+  let state: IndexerState =
+    prev && prev.nft.toLowerCase() === nft.toLowerCase()
+      ? { ...prev, mints: [...prev.mints] }
+      : {
+          version: 1,
+          nft,
+          lastBlock: Math.max(-1, safeHead - initialLookback),
+          lastBlockHash: ZERO32 as `0x${string}`,
+          chunkSize: Number(process.env.INDEXER_CHUNK_SIZE ?? 10),
+          mints: [],
+        };
+
+  // Reorg check: the checkpoint block must still be canonical
+  let reorged = false;
+  if (state.lastBlockHash !== ZERO32 && state.lastBlock >= 0) {
+    const block = await provider.getBlock(state.lastBlock);
+    if (!block || block.hash !== state.lastBlockHash) {
+      reorged = true;
+      const rewindTo = Math.max(-1, state.lastBlock - maxReorgDepth);
+      warn.push(`Checkpoint block ${state.lastBlock} was reorged; rewinding to ${rewindTo}`);
+      state = {
+        ...state,
+        lastBlock: rewindTo,
+        lastBlockHash: ZERO32 as `0x${string}`,
+        mints: state.mints.filter((m) => m.blockNumber <= rewindTo),
+      };
+    }
+  }
+
+  const fromBlock = state.lastBlock + 1;
+  const toBlock = Math.min(safeHead, fromBlock + maxBlocksPerRun - 1);
+
+  const timestamps = new Map<number, number>();
+  async function timestampOf(n: number) {
+    let ts = timestamps.get(n);
+    if (ts === undefined) {
+      const block = await provider.getBlock(n);
+      if (!block) throw new Error(`Block ${n} not found`);
+      ts = block.timestamp;
+      timestamps.set(n, ts);
+    }
+    return ts;
+  }
+
+  const seen = new Set(state.mints.map((m) => `${m.txHash}:${m.logIndex}`));
+  let chunk = state.chunkSize;
+  if (toBlock >= fromBlock) {
+    const res = await getLogsAdaptive(provider, mintLogsFilter(nft), fromBlock, toBlock, {
+      chunk: state.chunkSize,
+      minChunk,
+      maxChunk,
+    });
+    chunk = res.chunk;
+    for (const log of res.logs) {
+      const mint = decodeMintLog(log);
+      const id = `${mint.txHash}:${mint.logIndex}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const timestamp = await timestampOf(mint.blockNumber);
+      state.mints.push({ ...mint, timestamp, round: roundOf(timestamp) });
+    }
+  }
+
+  let headRound: number;
+  if (toBlock >= fromBlock) {
+    const block = await provider.getBlock(toBlock);
+    if (!block?.hash) throw new Error(`Block ${toBlock} not found`);
+    state.lastBlock = toBlock;
+    state.lastBlockHash = block.hash as `0x${string}`;
+    headRound = roundOf(block.timestamp);
+  } else {
+    headRound = roundOf(await timestampOf(Math.max(0, state.lastBlock)));
+  }
+  state.chunkSize = chunk;
+  state.mints = state.mints.filter((m) => m.round > headRound - retainRounds);
+
+  const caughtUp = toBlock >= safeHead;
+  if (!caughtUp) warn.push(`Indexer behind: processed up to ${toBlock}, safe head is ${safeHead}`);
+
+  return { state, fromBlock, toBlock, caughtUp, reorged, headRound, warn };
+}
+
+// Folds mints delivered by a webhook into the state without scanning logs.
+// The checkpoint is left alone, so the next full sync still re-checks those blocks.
+// Only logs `confirmations` deep are credited, against the same confirmed head the cron
+// sync uses; newer ones are left for that sync, so a reorged-out mint never reaches a root.
+export async function applyWebhookMints(
+  provider: Provider,
+  prev: IndexerState,
+  mints: RoundMint[],
+  removed: RoundMint[] = [],
+  opts: Pick<IndexerOptions, "confirmations"> = {}
+): Promise<{ state: IndexerState; headRound: number; deferred: number }> {
+  const confirmations = opts.confirmations ?? Number(process.env.INDEXER_CONFIRMATIONS ?? 3);
+  const safeHead = Math.max(0, (await provider.getBlockNumber()) - confirmations);
+
+  const gone = new Set(removed.map((m) => `${m.txHash}:${m.logIndex}`));
+  const state: IndexerState = {
+    ...prev,
+    mints: prev.mints.filter((m) => !gone.has(`${m.txHash}:${m.logIndex}`)),
+  };
+  const seen = new Set(state.mints.map((m) => `${m.txHash}:${m.logIndex}`));
+
+  const timestamps = new Map<number, number>();
+  async function timestampOf(n: number) {
+    let ts = timestamps.get(n);
+    if (ts === undefined) {
+      const block = await provider.getBlock(n);
+      if (!block) throw new Error(`Block ${n} not found`);
+      ts = block.timestamp;
+      timestamps.set(n, ts);
+    }
+    return ts;
+  }
+
+  let deferred = 0;
+  for (const mint of mints) {
+    const id = `${mint.txHash}:${mint.logIndex}`;
+    if (seen.has(id) || gone.has(id)) continue;
+    if (mint.blockNumber > safeHead) {
+      deferred++;
+      continue;
+    }
+    seen.add(id);
+    const ts = await timestampOf(mint.blockNumber);
+    state.mints.push({ ...mint, timestamp: ts, round: roundOf(ts) });
+  }
+
+  return { state, headRound: roundOf(await timestampOf(safeHead)), deferred };
+}
@@ -0,0 +1,61 @@
+// Ledger of past rounds, used by the cumulative claims mode.
+// Each round maps account → amount earned in that round; cumulative totals
+// are the sum across every recorded round.
+
+export const LEDGER_KEY = "claims/ledger.json";
+
+export type Ledger = {
+  version: 1;
+  rounds: Record<string, Record<`0x${string}`, string>>;
+  minted?: Record<string, number>;   // round → indexed mint events it was credited from
+};
+
+export function emptyLedger(): Ledger {
+  return { version: 1, rounds: {} };
+}
+
+// Replaces the round's entry, so rebuilding the same round twice is idempotent.
+// `mints`: how many indexed mints the entry was computed from, so a mint indexed after
+// the round closed can be told apart (see roundsToBackfill)
+export function recordRound(ledger: Ledger, round: bigint, earned: Map<`0x${string}`, bigint>, mints?: number): Ledger {
+  const key = round.toString();
+  const rounds = { ...ledger.rounds };
+  if (earned.size === 0) {
+    delete rounds[key];
+  } else {
+    const entry: Record<`0x${string}`, string> = {};
+    for (const [account, amount] of earned) entry[account] = amount.toString();
+    rounds[key] = entry;
+  }
+  const minted = { ...ledger.minted };
+  if (mints === undefined) delete minted[key];
+  else minted[key] = mints;
+  return { version: 1, rounds, ...(Object.keys(minted).length ? { minted } : {}) };
+}
+
+// Closed rounds whose indexed mints were never (fully) credited: missing from the ledger,
+// or recorded from fewer mints than the indexer holds now. Rounds recorded before mint
+// counts were kept are left alone, since the indexer may only hold part of them.
+export function roundsToBackfill(ledger: Ledger, indexed: Map<number, number>, headRound: number): number[] {
+  const out: number[] = [];
+  for (const [round, count] of indexed) {
+    if (round >= headRound || count === 0) continue;
+    const key = String(round);
+    const recorded = ledger.minted?.[key] ?? (ledger.rounds[key] ? Infinity : 0);
+    if (count > recorded) out.push(round);
+  }
+  return out.sort((a, b) => a - b);
+}
+
+// Totals over rounds <= upTo (all rounds when omitted), so replaying an old round reproduces its root
+export function cumulativeTotals(ledger: Ledger, upTo?: bigint): Map<`0x${string}`, bigint> {
+  const totals = new Map<`0x${string}`, bigint>();
+  for (const [round, entry] of Object.entries(ledger.rounds)) {
+    if (upTo !== undefined && BigInt(round) > upTo) continue;
+    for (const [account, amount] of Object.entries(entry)) {
+      const a = account as `0x${string}`;
+      totals.set(a, (totals.get(a) ?? 0n) + BigInt(amount));
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+import { getClaimsStore, type ClaimsStore } from "@/lib/store";
+
+// Leases that keep two rebuilds from publishing at the same time.
+// A lease expires on its own, so a crashed holder blocks others for at most its TTL.
+// Backends: the claims store (create-if-absent), a lock file, or process memory.
+
+export type Lease = {
+  key: string;
+  owner: string;
+  acquiredAt: number; // ms epoch
+  expiresAt: number;
+  note?: string;
+};
+
+export interface LockStore {
+  // undefined → someone else holds a live lease on key
+  acquire(key: string, ttlMs: number, note?: string): Promise<Lease | undefined>;
+  release(lease: Lease): Promise<void>;
+  peek(key: string): Promise<Lease | undefined>;
+}
+
+export type LockBackend = "store" | "file" | "memory";
+
+function newLease(key: string, ttlMs: number, note?: string): Lease {
+  const now = Date.now();
+  return { key, owner: crypto.randomUUID(), acquiredAt: now, expiresAt: now + ttlMs, note };
+}
+
+function live(lease: Lease | undefined): lease is Lease {
+  return !!lease && lease.expiresAt > Date.now();
+}
+
+export function memoryLockStore(): LockStore {
+  const leases = new Map<string, Lease>();
+  return {
+    async acquire(key, ttlMs, note) {
+      if (live(leases.get(key))) return undefined;
+      const lease = newLease(key, ttlMs, note);
+      leases.set(key, lease);
+      return lease;
+    },
+    async release(lease) {
+      if (leases.get(lease.key)?.owner === lease.owner) leases.delete(lease.key);
+    },
+    async peek(key) {
+      const lease = leases.get(key);
+      return live(lease) ? lease : undefined;
+    },
+  };
+}
+
+export function fileLockStore(dir = path.join(os.tmpdir(), "mrt-locks")): LockStore {
+  const file = (key: string) => path.join(dir, `${key.replace(/[^\w.-]/g, "_")}.lock`);
+  const read = (key: string): Lease | undefined => {
+    try {
+      return JSON.parse(fs.readFileSync(file(key), "utf8")) as Lease;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    async acquire(key, ttlMs, note) {
+      fs.mkdirSync(dir, { recursive: true });
+      const lease = newLease(key, ttlMs, note);
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          fs.writeFileSync(file(key), JSON.stringify(lease), { flag: "wx" });
+          return lease;
+        } catch (e) {
+          if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+          if (live(read(key))) return undefined;
+          fs.rmSync(file(key), { force: true }); // expired or unreadable: take it over
+        }
+      }
+      return undefined;
+    },
+    async release(lease) {
+      if (read(lease.key)?.owner === lease.owner) fs.rmSync(file(lease.key), { force: true });
+    },
+    async peek(key) {
+      const lease = read(key);
+      return live(lease) ? lease : undefined;
+    },
+  };
+}
+
+export function claimsStoreLockStore(claims: ClaimsStore = getClaimsStore(), prefix = "claims/locks"): LockStore {
+  const leaseKey = (key: string) => `${prefix}/${key}.json`;
+  const read = async (key: string) => {
+    const body = await claims.read(leaseKey(key));
+    return body === undefined ? undefined : (JSON.parse(body) as Lease);
+  };
+
+  return {
+    async acquire(key, ttlMs, note) {
+      const lease = newLease(key, ttlMs, note);
+      for (let attempt = 0; attempt < 2; attempt++) {
+        if (await claims.create(leaseKey(key), JSON.stringify(lease))) return lease;
+        if (live(await read(key))) return undefined;
+        await claims.delete(leaseKey(key)); // expired: take it over
+      }
+      return undefined;
+    },
+    async release(lease) {
+      const held = await read(lease.key);
+      if (held?.owner === lease.owner) await claims.delete(leaseKey(lease.key));
+    },
+    async peek(key) {
+      const lease = await read(key);
+      return live(lease) ? lease : undefined;
+    },
+  };
+}
+
+// REBUILD_LOCK picks the backend; otherwise the claims store when it can create-if-absent
+// (everything but IPFS), then a lock file, then memory when the filesystem is read-only
+export function defaultLockBackend(): LockBackend {
+  const forced = process.env.REBUILD_LOCK;
+  if (forced === "store" || forced === "file" || forced === "memory") return forced;
+  if (getClaimsStore().kind !== "ipfs") return "store";
+  try {
+    fs.accessSync(os.tmpdir(), fs.constants.W_OK);
+    return "file";
+  } catch {
+    return "memory";
+  }
+}
+
+let store: LockStore | undefined;
+
+export function setLockStore(next: LockStore) {
+  store = next;
+}
+
+export function getLockStore(): LockStore {
+  if (!store) {
+    const backend = defaultLockBackend();
+    store = backend === "store" ? claimsStoreLockStore() : backend === "file" ? fileLockStore() : memoryLockStore();
+  }
+  return store;
+}
+
+export type LockOutcome<T> = { acquired: true; value: T } | { acquired: false; holder?: Lease };
+
+// Runs fn while holding key; a busy lock returns the current holder instead of waiting
+export async function withLock<T>(
+  key: string,
+  ttlMs: number,
+  fn: (lease: Lease) => Promise<T>,
+  note?: string
+): Promise<LockOutcome<T>> {
+  const locks = getLockStore();
+  const lease = await locks.acquire(key, ttlMs, note);
+  if (!lease) return { acquired: false, holder: await locks.peek(key) };
+  try {
+    return { acquired: true, value: await fn(lease) };
+  } finally {
+    await locks.release(lease).catch(() => undefined);
+  }
+}
@@ -0,0 +1,146 @@
+import { ethers } from "ethers";
+import type { RewardBreakdown, RewardPolicy } from "./rewards";
+import type { Exclusion } from "./exclusions";
+
+// Merkle core shared by the Next builder, the Hardhat script and the claim page.
+// Owns the leaf encoding (must match MerkleDistributor / CumulativeMerkleDistributor),
+// tree building, proofs and verification. Only depends on ethers so it runs in
+// the browser and can be imported by relative path from backend/.
+//
+// Tree layout matches OpenZeppelin's MerkleProof (and merkletreejs with sortPairs):
+// each parent is keccak256 of its two children in ascending order, and an odd
+// node at the end of a layer is carried up unchanged.
+
+export type Hex32 = `0x${string}`;
+
+// "round": leaf = (account, amount, round), claimable only while the round is live.
+// "cumulative": leaf = (account, totalEarnedToDate), claims pay the difference.
+export type ClaimsMode = "round" | "cumulative";
+
+export type Claim = {
+  account: `0x${string}`;
+  amount: string;
+  proof: `0x${string}`[];
+  reward?: RewardBreakdown;      // how this round's part of amount was computed
+};
+
+// EIP-712 signature over (mode, round, root, contentHash); see lib/signing.ts
+export type PayloadSignature = {
+  scheme: "eip712";
+  signer: `0x${string}`;
+  chainId: number;
+  distributor: `0x${string}`;
+  signature: `0x${string}`;
+};
+
+export type ProofsPayload = {
+  mode?: ClaimsMode; // absent in files written before cumulative mode → "round"
+  round: number;
+  root: `0x${string}`;
+  claims: Claim[];
+  policy?: RewardPolicy;         // absent in files written before reward policies → flat
+  eligibility?: { source: "minters" | "holders"; block?: number }; // absent → minters of the round
+  excluded?: Exclusion[];        // accounts dropped by the deny/allow lists or the contract filter
+  contentHash?: Hex32;           // keccak256 of the canonical payload without contentHash/signature
+  signature?: PayloadSignature;  // absent when the builder has no publisher key
+};
+
+// Published when a round has no claims; setRoot rejects bytes32(0)
+export const EMPTY_ROOT: Hex32 = ethers.keccak256(ethers.toUtf8Bytes("empty")) as Hex32;
+
+export function normalizeAccount(account: string): `0x${string}` {
+  return ethers.getAddress(account) as `0x${string}`;
+}
+
+// MerkleDistributor: keccak256(abi.encodePacked(account, amount, r))
+export function leafHash(account: `0x${string}`, amount: bigint, round: bigint): Hex32 {
+  return ethers.keccak256(
+    ethers.solidityPacked(["address", "uint256", "uint64"], [account, amount, round])
+  ) as Hex32;
+}
+
+// CumulativeMerkleDistributor: keccak256(abi.encodePacked(account, cumulativeAmount))
+export function cumulativeLeafHash(account: `0x${string}`, cumulativeAmount: bigint): Hex32 {
+  return ethers.keccak256(
+    ethers.solidityPacked(["address", "uint256"], [account, cumulativeAmount])
+  ) as Hex32;
+}
+
+export function encodeLeaf(mode: ClaimsMode, account: `0x${string}`, amount: bigint, round: bigint): Hex32 {
+  return mode === "cumulative" ? cumulativeLeafHash(account, amount) : leafHash(account, amount, round);
+}
+
+function hashPair(a: Hex32, b: Hex32): Hex32 {
+  const [lo, hi] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([lo, hi])) as Hex32;
+}
+
+// layers[0] = leaves, last layer = [root]
+function buildLayers(leaves: Hex32[]): Hex32[][] {
+  const layers: Hex32[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const nodes = layers[layers.length - 1];
+    const next: Hex32[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      next.push(i + 1 < nodes.length ? hashPair(nodes[i], nodes[i + 1]) : nodes[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+function proofFor(layers: Hex32[][], index: number): Hex32[] {
+  const proof: Hex32[] = [];
+  for (let l = 0; l < layers.length - 1; l++) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layers[l].length) proof.push(layers[l][sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function verifyProof(proof: readonly `0x${string}`[], root: `0x${string}`, leaf: `0x${string}`): boolean {
+  let node = leaf as Hex32;
+  for (const p of proof) node = hashPair(node, p as Hex32);
+  return node.toLowerCase() === root.toLowerCase();
+}
+
+// Accounts are checksummed and sorted, so every entry point builds the same tree
+export function buildPayload(
+  entitlements: Map<string, bigint>,
+  mode: ClaimsMode,
+  round: bigint
+): ProofsPayload {
+  const amounts = new Map<`0x${string}`, bigint>();
+  for (const [account, amount] of entitlements) amounts.set(normalizeAccount(account), amount);
+  const accounts = Array.from(amounts.keys()).sort();
+
+  if (accounts.length === 0) {
+    return { mode, round: Number(round), root: EMPTY_ROOT, claims: [] };
+  }
+
+  const leaves = accounts.map((a) => encodeLeaf(mode, a, amounts.get(a)!, round));
+  const layers = buildLayers(leaves);
+  return {
+    mode,
+    round: Number(round),
+    root: layers[layers.length - 1][0],
+    claims: accounts.map((account, i) => ({
+      account,
+      amount: amounts.get(account)!.toString(),
+      proof: proofFor(layers, i),
+    })),
+  };
+}
+
+export function verifyClaim(payload: ProofsPayload, claim: Claim): boolean {
+  const leaf = encodeLeaf(payload.mode ?? "round", normalizeAccount(claim.account), BigInt(claim.amount), BigInt(payload.round));
+  return verifyProof(claim.proof, payload.root, leaf);
+}
+
+// Rebuilds the tree from the payload's (account, amount) entries alone
+export function computePayloadRoot(payload: ProofsPayload): Hex32 {
+  const entitlements = new Map<string, bigint>();
+  for (const c of payload.claims) entitlements.set(c.account, BigInt(c.amount));
+  return buildPayload(entitlements, payload.mode ?? "round", BigInt(payload.round)).root;
+}
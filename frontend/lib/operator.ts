@@ -0,0 +1,171 @@
+import { Contract, ethers, type Provider } from "ethers";
+import { getClaimsStore, readJson, type ClaimsStoreKind } from "@/lib/store";
+import { readArchivedRound, readRoundIndex, type RoundIndexEntry } from "@/lib/archive";
+import { currentDistributorEvents } from "@/lib/distributorEvents";
+import { loadIndexerState } from "@/lib/indexer";
+import { LAST_REBUILD_KEY, REBUILD_LOCK_KEY, type LastRebuild } from "@/lib/rebuild";
+import { PENDING_TX_KEY, type PendingTx } from "@/lib/publisher";
+import { getLockStore, type Lease } from "@/lib/lock";
+import { ADMIN_SESSION_PURPOSE, recoverAdminSession, type AdminSession } from "@/lib/signing";
+import type { ClaimsMode, ProofsPayload } from "@/lib/merkle";
+
+// What the operator dashboard (/admin) shows: published vs on-chain state, archived rounds
+// with their claim counts, the last publishing run, balances, and one round's claim table.
+// Only the distributor owner gets it, through a signed AdminSession (lib/signing.ts).
+
+const MAX_SESSION_SECONDS = Number(process.env.ADMIN_SESSION_SECONDS ?? 3600);
+const MAX_ROUNDS = Number(process.env.ADMIN_MAX_ROUNDS ?? 48);
+
+const DIST_ABI = [
+  "function merkleRoot() view returns (bytes32)",
+  "function round() view returns (uint64)",
+  "function owner() view returns (address)",
+  "function token() view returns (address)",
+] as const;
+
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"] as const;
+
+export type SessionCheck = { ok: true; owner: `0x${string}` } | { ok: false; status: 401 | 403; error: string };
+
+export async function verifyOwnerSession(
+  provider: Provider,
+  distributor: `0x${string}`,
+  session: AdminSession | undefined,
+  signature: string | undefined
+): Promise<SessionCheck> {
+  if (!session || !signature || session.purpose !== ADMIN_SESSION_PURPOSE) {
+    return { ok: false, status: 401, error: "missing or malformed session" };
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const { issuedAt, expiresAt } = session;
+  if (!Number.isSafeInteger(issuedAt) || !Number.isSafeInteger(expiresAt) || issuedAt > now + 60 || expiresAt <= now) {
+    return { ok: false, status: 401, error: "session expired" };
+  }
+  if (expiresAt - issuedAt > MAX_SESSION_SECONDS) return { ok: false, status: 401, error: "session too long" };
+
+  const { chainId } = await provider.getNetwork();
+  let signer: string;
+  try {
+    signer = recoverAdminSession(session, signature, Number(chainId), distributor);
+  } catch {
+    return { ok: false, status: 401, error: "malformed signature" };
+  }
+  const owner = (await new Contract(distributor, DIST_ABI, provider).owner()) as `0x${string}`;
+  if (signer.toLowerCase() !== owner.toLowerCase()) return { ok: false, status: 403, error: "not the distributor owner" };
+  return { ok: true, owner };
+}
+
+export type RoundSummary = RoundIndexEntry & {
+  claimed: number;       // accounts with a Claimed event for the round
+  onchain: boolean;      // the archived root became the round's root on-chain
+};
+
+export type RoundClaims = {
+  round: number;
+  mode: ClaimsMode;
+  claimed: { account: `0x${string}`; amount: string; txHash: `0x${string}` }[];
+  unclaimed: { account: `0x${string}`; amount: string }[];
+};
+
+export type OperatorStatus = {
+  store: ClaimsStoreKind;
+  published?: { mode: ClaimsMode; round: number; root: `0x${string}`; count: number; signed: boolean };
+  onchain: { round: number; root: `0x${string}` };
+  inSync: boolean;
+  indexedTo?: number;
+  eventsIndexedTo: number;
+  pendingTx?: PendingTx;
+  lock?: Lease;
+  lastRebuild?: LastRebuild;
+  balances: {
+    token: `0x${string}`;
+    distributor: string;
+    vault?: { address: `0x${string}`; balance: string };
+  };
+  rounds: RoundSummary[];      // newest first
+  claims?: RoundClaims;        // the requested round, or the newest archived one
+  warn: string[];
+};
+
+// Claimed events against one archived round's leaves
+export function roundClaims(payload: ProofsPayload, claims: { round: number; account: string; amount: string; txHash: `0x${string}` }[]): RoundClaims {
+  const byAccount = new Map(claims.filter((c) => c.round === payload.round).map((c) => [c.account.toLowerCase(), c]));
+  const out: RoundClaims = { round: payload.round, mode: payload.mode ?? "round", claimed: [], unclaimed: [] };
+  for (const leaf of payload.claims) {
+    const event = byAccount.get(leaf.account.toLowerCase());
+    if (event) out.claimed.push({ account: leaf.account, amount: event.amount, txHash: event.txHash });
+    else out.unclaimed.push({ account: leaf.account, amount: leaf.amount });
+  }
+  return out;
+}
+
+export async function operatorStatus(
+  provider: Provider,
+  distributor: `0x${string}`,
+  opts: { round?: number; vault?: `0x${string}` } = {}
+): Promise<OperatorStatus> {
+  const dist = new Contract(distributor, DIST_ABI, provider);
+  const [published, root, round, token, index, indexer, pendingTx, lock, lastRebuild, events] = await Promise.all([
+    readJson<ProofsPayload>("claims/current.json"),
+    dist.merkleRoot() as Promise<`0x${string}`>,
+    dist.round() as Promise<bigint>,
+    dist.token() as Promise<`0x${string}`>,
+    readRoundIndex(),
+    loadIndexerState(),
+    readJson<PendingTx>(PENDING_TX_KEY),
+    getLockStore().peek(REBUILD_LOCK_KEY),
+    readJson<LastRebuild>(LAST_REBUILD_KEY),
+    currentDistributorEvents(provider, distributor),
+  ]);
+
+  const erc20 = new Contract(token, ERC20_ABI, provider);
+  const vault = opts.vault ?? (process.env.NEXT_PUBLIC_STAKING_ADDRESS as `0x${string}` | undefined);
+  const [distBalance, vaultBalance] = await Promise.all([
+    erc20.balanceOf(distributor) as Promise<bigint>,
+    vault ? (erc20.balanceOf(vault) as Promise<bigint>) : undefined,
+  ]);
+
+  const claimedPerRound = new Map<number, Set<string>>();
+  for (const c of events.state.claims) {
+    const set = claimedPerRound.get(c.round) ?? new Set<string>();
+    set.add(c.account.toLowerCase());
+    claimedPerRound.set(c.round, set);
+  }
+  const finalRoot = new Map<number, string>();
+  for (const e of events.state.roots) finalRoot.set(e.round, e.root.toLowerCase());
+
+  const rounds = index.rounds.slice(0, MAX_ROUNDS).map((r) => ({
+    ...r,
+    claimed: claimedPerRound.get(r.round)?.size ?? 0,
+    onchain: finalRoot.get(r.round) === r.root.toLowerCase(),
+  }));
+
+  const tableRound = opts.round ?? rounds[0]?.round;
+  const archived = tableRound === undefined ? undefined : await readArchivedRound(tableRound);
+
+  return {
+    store: getClaimsStore().kind,
+    published: published && {
+      mode: published.mode ?? "round",
+      round: published.round,
+      root: published.root,
+      count: published.claims.length,
+      signed: !!published.signature,
+    },
+    onchain: { round: Number(round), root },
+    inSync: !!published && published.root.toLowerCase() === root.toLowerCase() && BigInt(published.round) === round,
+    indexedTo: indexer?.lastBlock,
+    eventsIndexedTo: events.state.lastBlock,
+    pendingTx,
+    lock,
+    lastRebuild,
+    balances: {
+      token,
+      distributor: distBalance.toString(),
+      vault: vault && vaultBalance !== undefined ? { address: ethers.getAddress(vault) as `0x${string}`, balance: vaultBalance.toString() } : undefined,
+    },
+    rounds,
+    claims: archived && roundClaims(archived, events.state.claims),
+    warn: events.warn,
+  };
+}
@@ -0,0 +1,100 @@
+import { Contract, type Provider, type Wallet } from "ethers";
+import { deleteKey, readJson, writeJson } from "@/lib/store";
+
+// Sends setRoot with an explicit nonce and remembers the transaction until it is mined,
+// so a later rebuild can tell "still pending" apart from "never sent" or "dropped".
+
+export const PENDING_TX_KEY = "claims/pending-tx.json";
+
+export type PendingTx = {
+  hash: `0x${string}`;
+  from: `0x${string}`;
+  nonce: number;
+  root: `0x${string}`;
+  round: number;
+  sentAt: string;
+};
+
+export type PublishOutcome =
+  | { status: "mined"; hash: `0x${string}`; blockNumber: number }
+  | { status: "pending"; tx: PendingTx }   // sent, not mined within the wait budget
+  | { status: "failed"; error: string; hash?: `0x${string}` };
+
+const SET_ROOT_ABI = ["function setRoot(bytes32 newRoot, uint64 newRound) external"] as const;
+
+async function clearPending() {
+  try {
+    await deleteKey(PENDING_TX_KEY);
+  } catch {
+    // best effort: a stale record is re-checked and cleared on the next run
+  }
+}
+
+// A tx the node does not know, whose nonce is still free, counts as dropped after this long;
+// until then it may just not have reached this node (or it is being rebroadcast)
+const DROPPED_AFTER_MS = Number(process.env.SETROOT_DROPPED_AFTER_SECONDS ?? 600) * 1000;
+
+// Mined, or its nonce taken by another tx: either way it can no longer land
+async function settled(provider: Provider, rec: Pick<PendingTx, "hash" | "from" | "nonce">): Promise<boolean> {
+  if (await provider.getTransactionReceipt(rec.hash)) return true;
+  return (await provider.getTransactionCount(rec.from, "latest")) > rec.nonce;
+}
+
+// The recorded setRoot if it may still be mined; clears records that resolved
+export async function pendingSetRoot(provider: Provider): Promise<PendingTx | undefined> {
+  const rec = await readJson<PendingTx>(PENDING_TX_KEY);
+  if (!rec?.hash) return undefined;
+
+  if (await settled(provider, rec)) {
+    await clearPending();
+    return undefined;
+  }
+  if (await provider.getTransaction(rec.hash)) return rec;
+  if (Date.now() - Date.parse(rec.sentAt) < DROPPED_AFTER_MS) return rec;
+
+  // Unknown for a while and the nonce is still free: dropped, the nonce can be reused
+  await clearPending();
+  return undefined;
+}
+
+export async function publishRoot(
+  wallet: Wallet,
+  distributor: `0x${string}`,
+  root: `0x${string}`,
+  round: bigint,
+  waitMs = Number(process.env.SETROOT_WAIT_MS ?? 60_000)
+): Promise<PublishOutcome> {
+  const provider = wallet.provider!;
+  const from = (await wallet.getAddress()) as `0x${string}`;
+  // "pending" counts our own queued txs, so a parallel sender cannot reuse the nonce
+  const nonce = await provider.getTransactionCount(from, "pending");
+
+  let hash: `0x${string}` | undefined;
+  try {
+    const dist = new Contract(distributor, SET_ROOT_ABI, wallet);
+    const tx = await dist.setRoot(root, round, { nonce });
+    hash = tx.hash as `0x${string}`;
+
+    const pending: PendingTx = { hash, from, nonce, root, round: Number(round), sentAt: new Date().toISOString() };
+    try {
+      await writeJson(PENDING_TX_KEY, JSON.stringify(pending, null, 2));
+    } catch {
+      // still wait below; only the cross-run record is missing
+    }
+
+    try {
+      const receipt = await tx.wait(1, waitMs);
+      await clearPending();
+      if (!receipt || receipt.status === 0) return { status: "failed", error: "setRoot reverted", hash };
+      return { status: "mined", hash, blockNumber: receipt.blockNumber };
+    } catch (e) {
+      if ((e as { code?: string }).code === "TIMEOUT") return { status: "pending", tx: pending };
+      throw e;
+    }
+  } catch (e) {
+    // A wait error (RPC hiccup, ...) says nothing about the tx itself: keep the record
+    // while it may still be mined, so the next run does not send a competing setRoot
+    if (hash && (await settled(provider, { hash, from, nonce }).catch(() => false))) await clearPending();
+    return { status: "failed", error: e instanceof Error ? e.message : String(e), hash };
+  }
+}
@@ -0,0 +1,54 @@
+// Fixed-window counters keyed by caller. The default store lives in process memory,
+// so every serverless instance counts on its own; plug a shared store (Redis, KV, ...)
+// in with setRateLimitStore when limits must hold across instances.
+
+export type RateLimitHit = { count: number; resetAt: number };
+
+export interface RateLimitStore {
+  // Counts one hit for key in the current window of windowMs
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export type RateLimitResult = {
+  ok: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // ms epoch
+};
+
+const MAX_MEMORY_KEYS = 10_000;
+
+export function memoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size >= MAX_MEMORY_KEYS) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+      }
+
+      const current = windows.get(key);
+      const next = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+      windows.set(key, next);
+      return next;
+    },
+  };
+}
+
+let store: RateLimitStore = memoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export async function rateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const { count, resetAt } = await store.hit(`rl:${key}`, windowMs);
+  return { ok: count <= limit, limit, remaining: Math.max(0, limit - count), resetAt };
+}
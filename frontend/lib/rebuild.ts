@@ -1,114 +1,206 @@
-import fs from "node:fs";
-import path from "node:path";
-import { put } from "@vercel/blob";
-import { MerkleTree } from "merkletreejs";
-import keccak256 from "keccak256";
 import { ethers, JsonRpcProvider, Contract } from "ethers";
+import { getClaimsStore, readJson, writeJson, type ClaimsStoreKind } from "@/lib/store";
+import { archiveRound } from "@/lib/archive";
+import { applyWebhookMints, lateMints, loadIndexerState, mintCountsForRound, mintsPerRound, saveIndexerState, syncMints, type IndexerState } from "@/lib/indexer";
+import { blockRangeForRound, mintCounts, scanRoundMints, type RoundMint } from "@/lib/rounds";
+import { computeRewards, isFlatPolicy, policyLabel, type RewardPolicy } from "@/lib/rewards";
+import { configForRound, holderCountsAt, loadBuilderConfig, type EligibilitySource } from "@/lib/eligibility";
+import { applyExclusions, isExclusionActive, loadExclusionConfig, type Exclusion } from "@/lib/exclusions";
+import { checkSolvency, type Solvency } from "@/lib/solvency";
+import { buildPayload, type ClaimsMode, type Hex32, type ProofsPayload } from "@/lib/merkle";
+import { payloadContentHash, signPayload } from "@/lib/signing";
+import { withLock, type Lease, type LockOutcome } from "@/lib/lock";
+import { pendingSetRoot, publishRoot, type PendingTx } from "@/lib/publisher";
+import { cumulativeTotals, emptyLedger, LEDGER_KEY, recordRound, roundsToBackfill, type Ledger } from "@/lib/ledger";
 
-type RebuildOptions = {
+export type RebuildOptions = {
   rpcUrl?: string;
   nft?: `0x${string}`;
   distributor?: `0x${string}`;
   blocksPerHour?: number;
-  outPath?: string;
-  blobKey?: string;
+  payloadKey?: string;
+  mode?: ClaimsMode;
+  ledgerKey?: string;
+  round?: number; // rebuild this past round from chain data only; nothing is published
+  dryRun?: boolean; // compute and diff the would-be payload without writing anything
+  solvencyPolicy?: "warn" | "refuse"; // what to do when the distributor cannot cover the new root
+  webhook?: { mints: RoundMint[]; removed: RoundMint[] }; // mints parsed from a webhook; skips the log scan
+  policy?: RewardPolicy; // overrides the round's policy from BUILDER_SCHEDULE / REWARD_POLICY
+  eligibility?: EligibilitySource; // overrides the round's source from BUILDER_SCHEDULE / ELIGIBILITY
+  includePayload?: boolean; // historical and plan runs: return the built payload too
 };
 
-type RebuildResult = {
+export type RebuildResult = {
   ok: boolean;
+  mode: ClaimsMode;
   updated: boolean;
-  reason?: "empty" | "unchanged" | "pushed";
+  reason?: "empty" | "unchanged" | "pushed" | "historical" | "planned" | "underfunded" | "in-progress" | "behind";
   count: number;
   round: number;
   fileRoot: `0x${string}`;
   onchainRoot?: `0x${string}`;
-  blobUrl?: string;
-  localPath?: string;
+  store?: ClaimsStoreKind;
+  payloadUrl?: string;
+  archiveUrl?: string;
+  indexedTo?: number;
+  eligibility?: EligibilitySource;
+  snapshotBlock?: number;  // holders mode: owners were taken at the end of this block
+  excluded?: Exclusion[];  // accounts left out of the tree, with the reason
+  backfilled?: number[];   // cumulative: closed rounds (re)credited with mints indexed after they closed
+  plan?: RebuildPlan;
+  payload?: ProofsPayload; // only with includePayload
+  solvency?: Solvency;
+  lock?: Lease;            // holder of the rebuild lease when another run is in progress
+  pendingTx?: PendingTx;   // setRoot still waiting to be mined
+  txHash?: string;
   warn?: string[];
 };
 
-type Claim = {
-  account: `0x${string}`;
-  amount: string;
-  proof: `0x${string}`[];
+export type PayloadDiff = {
+  added: `0x${string}`[];
+  removed: `0x${string}`[];
+  changed: { account: `0x${string}`; from: string; to: string }[];
 };
 
-type ProofsPayload = {
-  round: number;
-  root: `0x${string}`;
-  claims: Claim[];
+export type RebuildPlan = {
+  wouldUpload: boolean;
+  wouldSetRoot: boolean;
+  published?: { round: number; root: `0x${string}`; count: number };
+  onchain: { round: number; root: `0x${string}` };
+  diff: PayloadDiff;
 };
 
-type Hex32 = `0x${string}`;
-
 const DIST_ABI = [
   "function token() view returns (address)",
   "function merkleRoot() view returns (bytes32)",
   "function round() view returns (uint64)",
   "function rewardAmount() view returns (uint256)",
-  "function setRoot(bytes32 newRoot, uint64 newRound) external",
 ] as const;
 
-const TRANSFER_SIG = ethers.id("Transfer(address,address,uint256)");
 const ZERO32: Hex32 = ("0x" + "0".repeat(64)) as Hex32;
-const DUMMY_ROOT: Hex32 = ethers.keccak256(ethers.toUtf8Bytes("empty")) as Hex32;
 
-function leafHash(account: `0x${string}`, amount: bigint, round: bigint) {
-  return ethers.keccak256(
-    ethers.solidityPacked(["address", "uint256", "uint64"], [account, amount, round])
-  );
-}
-function toBuf(hex: string) {
-  return Buffer.from(hex.slice(2), "hex");
-}
-function errorMessage(e: unknown): string {
+export const REBUILD_LOCK_KEY = "rebuild";
+const LOCK_TTL_MS = Number(process.env.REBUILD_LOCK_TTL_SECONDS ?? 300) * 1000;
+
+export function errorMessage(e: unknown): string {
   if (e instanceof Error) return e.message;
   if (typeof e === "string") return e;
   try { return JSON.stringify(e); } catch { return String(e); }
 }
 
-async function getLogsInChunks(
-  provider: JsonRpcProvider,
-  address: string,
-  fromBlock: number,
-  toBlock: number,
-  topics: string[]
-) {
-  const logs: ethers.Log[] = [];
-  const CHUNK_SIZE = 10;
-  for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
-    const end = Math.min(start + CHUNK_SIZE - 1, toBlock);
-    const chunkLogs = await provider.send("eth_getLogs", [
-      {
-        address,
-        fromBlock: `0x${start.toString(16)}`,
-        toBlock: `0x${end.toString(16)}`,
-        topics,
-      },
-    ]);
-    logs.push(...chunkLogs);
+export function diffPayloads(prev: ProofsPayload | undefined, next: ProofsPayload): PayloadDiff {
+  const before = new Map((prev?.claims ?? []).map((c) => [c.account.toLowerCase(), c]));
+  const after = new Map(next.claims.map((c) => [c.account.toLowerCase(), c]));
+  const diff: PayloadDiff = { added: [], removed: [], changed: [] };
+  for (const [key, c] of after) {
+    const old = before.get(key);
+    if (!old) diff.added.push(c.account);
+    else if (old.amount !== c.amount) diff.changed.push({ account: c.account, from: old.amount, to: c.amount });
   }
-  return logs;
+  for (const [key, c] of before) if (!after.has(key)) diff.removed.push(c.account);
+  return diff;
+}
+
+// `signed`: whether `next` is (or, in a plan, would be) signed before upload
+function sameAsPublished(current: ProofsPayload | undefined, next: ProofsPayload, signed = !!next.signature) {
+  return !!current &&
+    current.root.toLowerCase() === next.root.toLowerCase() &&
+    current.round === next.round &&
+    (current.mode ?? "round") === (next.mode ?? "round") &&
+    !!current.signature === signed;
+}
+
+function earnedOf(rewards: ReturnType<typeof computeRewards>): Map<`0x${string}`, bigint> {
+  const earned = new Map<`0x${string}`, bigint>();
+  for (const [a, r] of rewards) earned.set(a, BigInt(r.amount));
+  return earned;
+}
+
+function resolveMode(opts: RebuildOptions): ClaimsMode {
+  return opts.mode ?? (process.env.CLAIMS_MODE === "cumulative" ? "cumulative" : "round");
+}
+
+// One publishing rebuild at a time; overlapping callers get "in-progress" back
+// The last publishing run, for the operator dashboard (lib/operator.ts)
+export const LAST_REBUILD_KEY = "claims/last-rebuild.json";
+
+export type LastRebuild = {
+  at: string;
+  result?: RebuildResult;   // without payload and plan
+  error?: string;
+};
+
+async function saveLastRebuild(settled: PromiseSettledResult<RebuildResult>) {
+  const record: LastRebuild = { at: new Date().toISOString() };
+  if (settled.status === "fulfilled") record.result = { ...settled.value, payload: undefined, plan: undefined };
+  else record.error = errorMessage(settled.reason);
+  await writeJson(LAST_REBUILD_KEY, JSON.stringify(record, null, 2));
 }
 
 export async function rebuildAndPush(opts: RebuildOptions = {}): Promise<RebuildResult> {
+  // Plan and historical runs write nothing, so they skip the lease
+  if (opts.dryRun || opts.round !== undefined) return rebuildUnlocked(opts);
+
+  // Only lease errors are reported here; a failing rebuild is settled inside the lease
+  // and rethrown below, so callers see it as an error (the route answers 500)
+  let outcome: LockOutcome<PromiseSettledResult<RebuildResult>>;
+  try {
+    outcome = await withLock(
+      REBUILD_LOCK_KEY,
+      LOCK_TTL_MS,
+      async () => {
+        const settled = (await Promise.allSettled([rebuildUnlocked(opts)]))[0];
+        await saveLastRebuild(settled).catch(() => undefined);
+        return settled;
+      },
+      "rebuildAndPush"
+    );
+  } catch (e) {
+    return {
+      ok: false, mode: resolveMode(opts), updated: false, count: 0, round: 0, fileRoot: ZERO32,
+      warn: [`Could not take the rebuild lock: ${errorMessage(e)}`],
+    };
+  }
+  if (!outcome.acquired) {
+    return {
+      ok: true, mode: resolveMode(opts), updated: false, reason: "in-progress", count: 0, round: 0, fileRoot: ZERO32,
+      lock: outcome.holder,
+      warn: ["Another rebuild is in progress"],
+    };
+  }
+  if (outcome.value.status === "rejected") throw outcome.value.reason;
+  return outcome.value.value;
+}
+
+async function rebuildUnlocked(opts: RebuildOptions): Promise<RebuildResult> {
   const warns: string[] = [];
 
   const rpcUrl = opts.rpcUrl ?? process.env.NEXT_PUBLIC_RPC_URL ?? "";
   const nft = (opts.nft ?? process.env.NEXT_PUBLIC_NFT_ADDRESS) as `0x${string}`;
   const distributor = (opts.distributor ?? process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS) as `0x${string}`;
   const blocksPerHour = opts.blocksPerHour ?? Number(process.env.BLOCKS_PER_HOUR ?? 300);
-  const outPath = opts.outPath ?? path.join(process.cwd(), "public", "claims", "current.json");
-  const blobKey = opts.blobKey ?? "claims/current.json";
+  const payloadKey = opts.payloadKey ?? "claims/current.json";
+  const mode = resolveMode(opts);
+  const ledgerKey = opts.ledgerKey ?? LEDGER_KEY;
+  const solvencyPolicy = opts.solvencyPolicy ?? (process.env.SOLVENCY_POLICY === "refuse" ? "refuse" : "warn");
 
   if (!rpcUrl || !nft || !distributor) {
-    return { ok: false, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: ["Missing RPC/NFT/DISTRIBUTOR env"] };
+    return { ok: false, mode, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: ["Missing RPC/NFT/DISTRIBUTOR env"] };
+  }
+
+  let builderConfig: ReturnType<typeof loadBuilderConfig>;
+  let exclusionConfig: ReturnType<typeof loadExclusionConfig>;
+  try {
+    builderConfig = loadBuilderConfig();
+    exclusionConfig = loadExclusionConfig();
+  } catch (e) {
+    return { ok: false, mode, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: [`Invalid builder config: ${errorMessage(e)}`] };
   }
 
   const provider = new JsonRpcProvider(rpcUrl);
   const code = await provider.getCode(distributor);
   if (code === "0x") {
-    return { ok: false, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: [`No contract bytecode at ${distributor}`] };
+    return { ok: false, mode, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: [`No contract bytecode at ${distributor}`] };
   }
 
   const dist = new Contract(distributor, DIST_ABI, provider);
@@ -125,113 +217,372 @@ export async function rebuildAndPush(opts: RebuildOptions = {}): Promise<Rebuild
     rewardAmount = fallback;
   }
 
-  const toBlock = await provider.getBlockNumber();
-  const fromBlock = Math.max(0, toBlock - blocksPerHour);
-  const logs = await getLogsInChunks(provider, nft, fromBlock, toBlock, [TRANSFER_SIG, ZERO32]);
+  let round: bigint;
+  let counts: Map<`0x${string}`, number>; // account → NFTs minted in the round
+  let indexedTo: number | undefined;
+  let roundEndBlock: number;                // last block the round's eligibility may look at
+  let indexed: IndexerState | undefined;   // live runs: the indexer state the round was built from
+  const historical = opts.round !== undefined;
 
-  const minters = new Set<string>();
-  for (const log of logs) {
-    const to = ethers.getAddress(("0x" + log.topics[2].slice(26)) as `0x${string}`);
-    //minters.add(to.toLowerCase());
-    minters.add(to);
+  if (historical) {
+    // Explicit round: minters come straight from the blocks inside its hour,
+    // so the same round always produces the same root
+    try {
+      const scan = await scanRoundMints(provider, nft, opts.round!);
+      if (!scan.range.final) warns.push(`Round ${opts.round} is still open; its root can still change`);
+      round = BigInt(opts.round!);
+      counts = mintCounts(scan.mints);
+      roundEndBlock = scan.range.toBlock;
+    } catch (e) {
+      return { ok: false, mode, updated: false, count: 0, round: opts.round!, fileRoot: ZERO32, warn: [...warns, `Round scan failed: ${errorMessage(e)}`] };
+    }
+  } else {
+    // Resume the mint indexer from its checkpoint; rounds come from block timestamps
+    try {
+      const prev = await loadIndexerState();
+      let state: IndexerState;
+      let headRound: number;
+      if (opts.webhook && prev && prev.nft.toLowerCase() === nft.toLowerCase()) {
+        const applied = await applyWebhookMints(provider, prev, opts.webhook.mints, opts.webhook.removed);
+        ({ state, headRound } = applied);
+        if (applied.deferred) warns.push(`${applied.deferred} webhook mint(s) not confirmed yet; left for the next sync`);
+      } else {
+        if (opts.webhook) warns.push("No indexer checkpoint yet; ignoring webhook logs and scanning instead");
+        const sync = await syncMints(provider, nft, prev, { initialLookback: blocksPerHour });
+        warns.push(...sync.warn);
+        state = sync.state;
+        headRound = sync.headRound;
+      }
+      if (!opts.dryRun) {
+        try {
+          await saveIndexerState(state);
+        } catch (e) {
+          warns.push(`Could not save indexer checkpoint: ${errorMessage(e)}`);
+        }
+      }
+      const late = lateMints(prev, state, headRound);
+      if (late.length && mode === "round") {
+        const rounds = [...new Set(late.map((m) => m.round))].join(", ");
+        warns.push(`${late.length} mint(s) from closed round(s) ${rounds} were indexed late; CLAIMS_MODE=round only pays the live round, so they earn nothing`);
+      }
+      indexed = state;
+      round = BigInt(headRound);
+      counts = mintCountsForRound(state, headRound);
+      indexedTo = state.lastBlock;
+      roundEndBlock = state.lastBlock;
+    } catch (e) {
+      return { ok: false, mode, updated: false, count: 0, round: 0, fileRoot: ZERO32, warn: [...warns, `Mint indexing failed: ${errorMessage(e)}`] };
+    }
   }
 
-  const round = BigInt(Math.floor(Date.now() / 1000 / 3600));
-  const addresses = Array.from(minters).sort();
+  const roundConfig = configForRound(Number(round), builderConfig);
+  const policy = opts.policy ?? roundConfig.policy;
+  const eligibility = opts.eligibility ?? roundConfig.eligibility;
+  // MerkleDistributor.claim only pays amount == rewardAmount
+  if (mode === "round" && !isFlatPolicy(policy)) {
+    return {
+      ok: false, mode, updated: false, count: 0, round: Number(round), fileRoot: ZERO32,
+      warn: [...warns, `Reward policy ${policyLabel(policy)} pays different amounts per account; it needs CLAIMS_MODE=cumulative`],
+    };
+  }
 
-  let fileRoot: Hex32;
-  let claims: Claim[];
+  let snapshotBlock: number | undefined;
+  if (eligibility === "holders") {
+    // Owners at the round's last (confirmed) block instead of the round's minters
+    try {
+      const holders = await holderCountsAt(provider, nft, roundEndBlock, !opts.dryRun && !historical);
+      counts = holders.counts;
+      snapshotBlock = holders.snapshot.block;
+    } catch (e) {
+      return {
+        ok: false, mode, updated: false, count: 0, round: Number(round), fileRoot: ZERO32,
+        warn: [...warns, `Holder snapshot failed: ${errorMessage(e)}`],
+      };
+    }
+  }
 
-  if (addresses.length === 0) {
-    fileRoot = DUMMY_ROOT;
-    claims = [];
-  } else {
-    const leaves = addresses.map((a) =>
-      toBuf(leafHash(a as `0x${string}`, rewardAmount, round))
-    );
-    const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
-    fileRoot = ("0x" + tree.getRoot().toString("hex")) as Hex32;
-    claims = addresses.map((account, i) => ({
-      account: ethers.getAddress(account) as `0x${string}`,
-      amount: rewardAmount.toString(),
-      proof: tree.getHexProof(leaves[i]).map((p) => p as `0x${string}`),
-    }));
+  let excluded: Exclusion[] | undefined;
+  if (isExclusionActive(exclusionConfig)) {
+    try {
+      ({ counts, excluded } = await applyExclusions(provider, counts, exclusionConfig, roundEndBlock));
+    } catch (e) {
+      // A half-applied filter could reward an account that should be left out
+      return {
+        ok: false, mode, updated: false, count: 0, round: Number(round), fileRoot: ZERO32,
+        warn: [...warns, `Exclusion filter failed: ${errorMessage(e)}`],
+      };
+    }
   }
 
-  const payloadStr = JSON.stringify({ round: Number(round), root: fileRoot, claims }, null, 2);
+  const rewards = computeRewards(counts, policy, rewardAmount);
 
-  let blobUrl: string | undefined;
-  let localPath: string | undefined;
+  // account → amount that goes into its leaf
+  let entitlements: Map<`0x${string}`, bigint>;
+  let ledger: Ledger | undefined;
+  let backfilled: number[] | undefined;
 
-  if (process.env.WRITE_LOCAL === "1" || !process.env.VERCEL || process.env.NODE_ENV !== "production") {
+  if (mode === "cumulative") {
     try {
-      fs.mkdirSync(path.dirname(outPath), { recursive: true });
-      fs.writeFileSync(outPath, payloadStr);
-      localPath = outPath;
+      ledger = (await readJson<Ledger>(ledgerKey)) ?? emptyLedger();
     } catch (e) {
-      warns.push(`Local write failed: ${errorMessage(e)}`);
+      // Never publish totals computed from a partial history
+      return {
+        ok: false, mode, updated: false, count: 0, round: Number(round), fileRoot: ZERO32,
+        warn: [...warns, `Could not load ledger: ${errorMessage(e)}`],
+      };
+    }
+    const perRound = indexed ? mintsPerRound(indexed) : undefined;
+
+    // Mints indexed after their round closed (late cron, confirmation lag, catch-up over
+    // several rounds) were never in a head-round build; credit those rounds now
+    if (indexed && perRound) {
+      backfilled = [];
+      for (const r of roundsToBackfill(ledger, perRound, Number(round))) {
+        const config = configForRound(r, builderConfig);
+        if ((opts.eligibility ?? config.eligibility) !== "minters") continue;
+        let pastCounts = mintCountsForRound(indexed, r);
+        if (isExclusionActive(exclusionConfig)) {
+          try {
+            // the closed round's own last block, as a historical rebuild of it would use
+            const { toBlock } = await blockRangeForRound(provider, r, roundEndBlock);
+            ({ counts: pastCounts } = await applyExclusions(provider, pastCounts, exclusionConfig, toBlock));
+          } catch (e) {
+            return {
+              ok: false, mode, updated: false, count: 0, round: Number(round), fileRoot: ZERO32,
+              warn: [...warns, `Exclusion filter failed for round ${r}: ${errorMessage(e)}`],
+            };
+          }
+        }
+        const pastRewards = computeRewards(pastCounts, opts.policy ?? config.policy, rewardAmount);
+        ledger = recordRound(ledger, BigInt(r), earnedOf(pastRewards), perRound.get(r));
+        backfilled.push(r);
+      }
+      if (backfilled.length) warns.push(`Credited mints indexed after their round closed: round(s) ${backfilled.join(", ")}`);
     }
+
+    const headMints = eligibility === "minters" && perRound ? perRound.get(Number(round)) ?? 0 : undefined;
+    ledger = recordRound(ledger, round, earnedOf(rewards), headMints);
+    entitlements = cumulativeTotals(ledger, round);
+  } else {
+    entitlements = new Map();
+    for (const [a, r] of rewards) entitlements.set(a, BigInt(r.amount));
   }
 
-  // Fetch latest blob content
-  let current: ProofsPayload | undefined;
-  const blobReadHost = process.env.BLOB_READ_HOST ?? "1knr7tukuhrzgbyl.public.blob.vercel-storage.com";
+  let payload = buildPayload(entitlements, mode, round);
+  payload = {
+    ...payload,
+    policy,
+    eligibility: { source: eligibility, ...(snapshotBlock !== undefined ? { block: snapshotBlock } : {}) },
+    ...(excluded ? { excluded } : {}),
+    claims: payload.claims.map((c) => (rewards.has(c.account) ? { ...c, reward: rewards.get(c.account) } : c)),
+  };
+  const fileRoot = payload.root;
+  const count = payload.claims.length;
+  const ledgerStr = ledger ? JSON.stringify(ledger, null, 2) : undefined;
+
+  if (historical) {
+    return {
+      ok: true,
+      mode,
+      updated: false,
+      reason: "historical",
+      count,
+      round: Number(round),
+      fileRoot,
+      onchainRoot,
+      eligibility,
+      snapshotBlock,
+      excluded,
+      ...(opts.includePayload ? { payload } : {}),
+      warn: warns.length ? warns : undefined,
+    };
+  }
+
+  // The indexed head can trail the chain (block cap, or a round another run already
+  // published): uploading would replace newer proofs and setRoot would revert ROUND_BACKWARDS
+  if (round < onchainRound) {
+    return {
+      ok: true,
+      mode,
+      updated: false,
+      reason: "behind",
+      count,
+      round: Number(round),
+      fileRoot,
+      onchainRoot,
+      indexedTo,
+      eligibility,
+      snapshotBlock,
+      excluded,
+      warn: [...warns, `Round ${round} is older than the on-chain round ${onchainRound}; not uploading or pushing`],
+    };
+  }
+
+  const needUpdate =
+    fileRoot.toLowerCase() !== (onchainRoot as string).toLowerCase() ||
+    round > onchainRound;
+
+  let solvency: Solvency | undefined;
   try {
-    const res = await fetch(`https://${blobReadHost}/${blobKey}`);
-    if (res.ok) current = await res.json();
+    solvency = await checkSolvency(provider, distributor, payload);
+    if (solvency.status !== "ok") {
+      warns.push(
+        `Distributor ${solvency.status}: balance ${solvency.balance}, unclaimed ${solvency.required} (shortfall ${solvency.shortfall})`
+      );
+    }
   } catch (e) {
-    warns.push(`Could not fetch current blob: ${errorMessage(e)}`);
+    warns.push(`Solvency check failed: ${errorMessage(e)}`);
   }
 
-  // Decide if upload is needed
-  if (
-    current &&
-    current.root.toLowerCase() === fileRoot.toLowerCase() &&
-    current.round === Number(round)
-  ) {
+  if (opts.dryRun) {
+    let current: ProofsPayload | undefined;
+    try {
+      current = await readJson<ProofsPayload>(payloadKey);
+    } catch (e) {
+      warns.push(`Could not fetch current payload: ${errorMessage(e)}`);
+    }
+    const wouldUpload = !sameAsPublished(current, payload, !!process.env.PUBLISHER_PRIVATE_KEY);
     return {
       ok: true,
+      mode,
       updated: false,
-      reason: addresses.length === 0 ? "empty" : "unchanged",
-      count: addresses.length,
+      reason: "planned",
+      count,
       round: Number(round),
       fileRoot,
       onchainRoot,
-      blobUrl: `https://${blobReadHost}/${blobKey}`,
-      localPath,
+      indexedTo,
+      eligibility,
+      snapshotBlock,
+      excluded,
+      backfilled: backfilled?.length ? backfilled : undefined,
+      solvency,
+      plan: {
+        wouldUpload,
+        // an unchanged payload skips only the upload; a root the chain lacks is still sent
+        wouldSetRoot: needUpdate,
+        published: current && { round: current.round, root: current.root, count: current.claims.length },
+        onchain: { round: Number(onchainRound), root: onchainRoot },
+        diff: diffPayloads(current, payload),
+      },
+      ...(opts.includePayload ? { payload } : {}),
       warn: warns.length ? warns : undefined,
     };
   }
 
-  let reason: "empty" | "unchanged" | "pushed" = "unchanged";
+  if (solvency?.status === "underfunded" && solvencyPolicy === "refuse") {
+    return {
+      ok: false,
+      mode,
+      updated: false,
+      reason: "underfunded",
+      count,
+      round: Number(round),
+      fileRoot,
+      onchainRoot,
+      indexedTo,
+      eligibility,
+      snapshotBlock,
+      excluded,
+      backfilled: backfilled?.length ? backfilled : undefined,
+      solvency,
+      warn: [...warns, "Refusing to publish a root the distributor cannot cover (SOLVENCY_POLICY=refuse)"],
+    };
+  }
+
+  // A setRoot from an earlier run is still in the mempool: publishing now would race it
+  if (process.env.PUBLISHER_PRIVATE_KEY) {
+    let pendingTx: PendingTx | undefined;
+    try {
+      pendingTx = await pendingSetRoot(provider);
+    } catch (e) {
+      warns.push(`Could not check pending setRoot: ${errorMessage(e)}`);
+    }
+    if (pendingTx) {
+      return {
+        ok: true,
+        mode,
+        updated: false,
+        reason: "in-progress",
+        count,
+        round: Number(round),
+        fileRoot,
+        onchainRoot,
+        indexedTo,
+        eligibility,
+        snapshotBlock,
+        excluded,
+        solvency,
+        pendingTx,
+        warn: [...warns, `setRoot ${pendingTx.hash} (nonce ${pendingTx.nonce}) is still pending`],
+      };
+    }
+  }
+
+  // Sign with the publisher key so the claim page can tell our file from a tampered copy
+  if (process.env.PUBLISHER_PRIVATE_KEY) {
+    try {
+      const { chainId } = await provider.getNetwork();
+      const wallet = new ethers.Wallet(process.env.PUBLISHER_PRIVATE_KEY);
+      payload = await signPayload(wallet, payload, Number(chainId), distributor);
+    } catch (e) {
+      warns.push(`Payload signing failed: ${errorMessage(e)}`);
+    }
+  }
+  if (!payload.contentHash) payload = { ...payload, contentHash: payloadContentHash(payload) };
+  const payloadStr = JSON.stringify(payload, null, 2);
+
+  const store = getClaimsStore();
+  let payloadUrl: string | undefined;
+
+  // Fetch the published payload
+  let current: ProofsPayload | undefined;
   try {
-    const res = await put(blobKey, payloadStr, {
-      access: "public",
-      addRandomSuffix: false,
-      contentType: "application/json",
-      token: process.env.BLOB_READ_WRITE_TOKEN,
-      allowOverwrite: true,
-    });
-    blobUrl = res.url;
-    reason = "pushed";
+    current = await readJson<ProofsPayload>(payloadKey);
   } catch (e) {
-    warns.push(`Blob upload failed: ${errorMessage(e)}`);
+    warns.push(`Could not fetch current payload: ${errorMessage(e)}`);
   }
 
-  const needUpdate =
-    fileRoot.toLowerCase() !== (onchainRoot as string).toLowerCase() ||
-    round > onchainRound;
+  // Upload only what changed; setRoot below still runs when the chain lags the file, so a
+  // failed, dropped or keyless setRoot from an earlier run is retried
+  const unchanged = sameAsPublished(current, payload);
+  let reason: "empty" | "unchanged" | "pushed" = "unchanged";
+  if (unchanged) {
+    payloadUrl = store.url(payloadKey);
+  } else {
+    try {
+      // Ledger first: if the payload upload then fails, the next run recomputes the same totals
+      if (ledgerStr) await writeJson(ledgerKey, ledgerStr);
+      payloadUrl = await writeJson(payloadKey, payloadStr);
+      reason = "pushed";
+    } catch (e) {
+      warns.push(`Upload to ${store.kind} store failed: ${errorMessage(e)}`);
+    }
+  }
 
-  let txHash: string | undefined;
-  if (needUpdate && process.env.PUBLISHER_PRIVATE_KEY) {
+  let archiveUrl: string | undefined;
+  if (reason === "pushed") {
     try {
-      const wallet = new ethers.Wallet(process.env.PUBLISHER_PRIVATE_KEY, provider);
-      const distWithSigner = new Contract(distributor, DIST_ABI, wallet);
-      const tx = await distWithSigner.setRoot(fileRoot, round);
-      const receipt = await tx.wait();
-      txHash = receipt.transactionHash;
+      archiveUrl = (await archiveRound(payload)).url;
     } catch (e) {
-      warns.push(`On-chain setRoot failed: ${errorMessage(e)}`);
+      warns.push(`Round archive failed: ${errorMessage(e)}`);
+    }
+  }
+
+  let txHash: string | undefined;
+  let pendingTx: PendingTx | undefined;
+  if (needUpdate && process.env.PUBLISHER_PRIVATE_KEY) {
+    const wallet = new ethers.Wallet(process.env.PUBLISHER_PRIVATE_KEY, provider);
+    const sent = await publishRoot(wallet, distributor, fileRoot, round);
+    if (sent.status === "mined") {
+      txHash = sent.hash;
+    } else if (sent.status === "pending") {
+      txHash = sent.tx.hash;
+      pendingTx = sent.tx;
+      warns.push(`setRoot ${sent.tx.hash} sent but not mined yet`);
+    } else {
+      txHash = sent.hash;
+      warns.push(`On-chain setRoot failed: ${sent.error}`);
     }
   } else if (needUpdate) {
     warns.push("setRoot needed but no PUBLISHER_PRIVATE_KEY provided — skipping on-chain update");
@@ -239,14 +590,23 @@ export async function rebuildAndPush(opts: RebuildOptions = {}): Promise<Rebuild
 
   return {
     ok: true,
+    mode,
     updated: needUpdate,
-    reason: addresses.length === 0 ? "empty" : reason,
-    count: addresses.length,
+    reason: count === 0 ? "empty" : reason,
+    count,
     round: Number(round),
     fileRoot,
     onchainRoot,
-    blobUrl,
-    localPath,
+    store: store.kind,
+    payloadUrl,
+    archiveUrl,
+    indexedTo,
+    eligibility,
+    snapshotBlock,
+    excluded,
+    backfilled: backfilled?.length ? backfilled : undefined,
+    solvency,
+    pendingTx,
     warn: warns.length ? warns : undefined,
     ...(txHash ? { txHash } : {}),
   };
@@ -0,0 +1,200 @@
+import { Contract, ethers, JsonRpcProvider } from "ethers";
+import { readJson, writeJson } from "@/lib/store";
+import { withLock } from "@/lib/lock";
+import { verifyClaim, type ProofsPayload } from "@/lib/merkle";
+import { recoverClaimRequest, type ClaimRequest } from "@/lib/signing";
+
+// Gasless claims. The wallet signs a ClaimRequest; the relayer checks it against the
+// published proofs and the distributor, then sends claim() from its own wallet.
+// claim() pays the account named in the leaf, so the relayer can never redirect funds;
+// the signature only decides whose gas it is willing to spend.
+// Spending is capped per round (number of claims and wei of gas), and sends are
+// serialized under a lease so two instances never race on the relayer's nonce.
+
+export type RelayBudget = {
+  maxClaims: number;
+  maxWei: bigint;
+};
+
+export type RoundSpend = {
+  round: number;
+  claims: number;
+  wei: string;
+  updatedAt: string;
+};
+
+export type RelayOptions = {
+  rpcUrl?: string;
+  distributor?: `0x${string}`;
+  relayerKey?: string;
+  payloadKey?: string;
+  budget?: RelayBudget;
+  waitMs?: number;
+};
+
+export type RelayResult =
+  | {
+      ok: true;
+      status: "mined" | "pending";
+      txHash: `0x${string}`;
+      account: `0x${string}`;
+      round: number;
+      amount: string;
+      spent: RoundSpend;
+    }
+  | { ok: false; status: 400 | 401 | 403 | 409 | 500 | 503; error: string; code?: string; retryAfter?: number };
+
+const DIST_ABI = [
+  "function merkleRoot() view returns (bytes32)",
+  "function round() view returns (uint64)",
+  "function isClaimed(uint64 r, address a) view returns (bool)",
+  "function claimed(address a) view returns (uint256)",
+  "function claim(uint64 r, address account, uint256 amount, bytes32[] merkleProof)",
+] as const;
+
+const CUMULATIVE_CLAIM_ABI = ["function claim(address account, uint256 cumulativeAmount, bytes32[] merkleProof)"] as const;
+
+export const RELAY_LOCK_KEY = "relay";
+const LOCK_TTL_MS = 60_000;
+const MAX_DEADLINE_SECONDS = Number(process.env.RELAY_MAX_DEADLINE_SECONDS ?? 3600);
+
+export function relaySpendKey(round: number) {
+  return `claims/relay/${round}.json`;
+}
+
+export function defaultRelayBudget(): RelayBudget {
+  return {
+    maxClaims: Number(process.env.RELAY_MAX_CLAIMS_PER_ROUND ?? 100),
+    maxWei: ethers.parseEther(process.env.RELAY_MAX_ETH_PER_ROUND ?? "0.05"),
+  };
+}
+
+function fail(status: Extract<RelayResult, { ok: false }>["status"], error: string, retryAfter?: number): RelayResult {
+  return { ok: false, status, error, ...(retryAfter !== undefined ? { retryAfter } : {}) };
+}
+
+function revertReason(e: unknown): string {
+  const err = e as { reason?: string; shortMessage?: string; message?: string };
+  return err.reason ?? err.shortMessage ?? err.message ?? String(e);
+}
+
+// Shape only; the signature and eligibility are checked in relayClaim
+export function parseClaimRequest(raw: unknown): ClaimRequest | undefined {
+  const r = raw as Partial<ClaimRequest> | undefined;
+  if (!r || typeof r !== "object") return undefined;
+  if (typeof r.account !== "string" || !ethers.isAddress(r.account)) return undefined;
+  if (!Number.isSafeInteger(r.round) || r.round! < 0) return undefined;
+  if (typeof r.amount !== "string" || !/^\d+$/.test(r.amount)) return undefined;
+  if (typeof r.root !== "string" || !ethers.isHexString(r.root, 32)) return undefined;
+  if (!Number.isSafeInteger(r.deadline)) return undefined;
+  return {
+    account: ethers.getAddress(r.account) as `0x${string}`,
+    round: r.round!,
+    amount: r.amount,
+    root: r.root as `0x${string}`,
+    deadline: r.deadline!,
+  };
+}
+
+export async function relayClaim(req: ClaimRequest, signature: string, opts: RelayOptions = {}): Promise<RelayResult> {
+  const rpcUrl = opts.rpcUrl ?? process.env.NEXT_PUBLIC_RPC_URL;
+  const distributor = opts.distributor ?? (process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined);
+  const relayerKey = opts.relayerKey ?? process.env.RELAYER_PRIVATE_KEY;
+  const payloadKey = opts.payloadKey ?? "claims/current.json";
+  const budget = opts.budget ?? defaultRelayBudget();
+  const waitMs = opts.waitMs ?? Number(process.env.RELAY_WAIT_MS ?? 30_000);
+  if (!rpcUrl || !distributor || !relayerKey) return fail(503, "Gasless claims are not enabled");
+
+  const now = Math.floor(Date.now() / 1000);
+  if (req.deadline < now) return fail(400, "Claim request expired; sign a new one");
+  if (req.deadline > now + MAX_DEADLINE_SECONDS) return fail(400, "Claim request deadline is too far in the future");
+
+  const provider = new JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  let signer: string;
+  try {
+    signer = recoverClaimRequest(req, signature, Number(chainId), distributor);
+  } catch {
+    return fail(401, "Malformed signature");
+  }
+  if (signer.toLowerCase() !== req.account.toLowerCase()) return fail(401, "Claim request is not signed by the account");
+
+  // The request must match the live proofs file, and that file must be the live root
+  const payload = await readJson<ProofsPayload>(payloadKey);
+  if (!payload) return fail(503, "No proofs published yet");
+  if (payload.round !== req.round || payload.root.toLowerCase() !== req.root.toLowerCase()) {
+    return fail(409, "The proofs changed since this request was signed; reload and sign again");
+  }
+  const claim = payload.claims.find((c) => c.account.toLowerCase() === req.account.toLowerCase());
+  if (!claim) return fail(403, `Not eligible in round ${payload.round}`);
+  if (claim.amount !== req.amount) return fail(400, "Amount does not match the published claim");
+  if (!verifyClaim(payload, claim)) return fail(409, "Published proof does not lead to the published root");
+
+  const mode = payload.mode ?? "round";
+  const dist = new Contract(distributor, DIST_ABI, provider);
+  const [onchainRoot, onchainRound] = (await Promise.all([dist.merkleRoot(), dist.round()])) as [string, bigint];
+  if (onchainRoot.toLowerCase() !== payload.root.toLowerCase() || (mode === "round" && onchainRound !== BigInt(payload.round))) {
+    return fail(409, "These proofs are not live on-chain yet");
+  }
+  const alreadyClaimed = mode === "cumulative"
+    ? ((await dist.claimed(claim.account)) as bigint) >= BigInt(claim.amount)
+    : ((await dist.isClaimed(payload.round, claim.account)) as boolean);
+  if (alreadyClaimed) return fail(409, "Already claimed");
+
+  const wallet = new ethers.Wallet(relayerKey, provider);
+  const contract = mode === "cumulative"
+    ? new Contract(distributor, CUMULATIVE_CLAIM_ABI, wallet)
+    : new Contract(distributor, DIST_ABI, wallet);
+  const args = mode === "cumulative"
+    ? [claim.account, BigInt(claim.amount), claim.proof]
+    : [BigInt(payload.round), claim.account, BigInt(claim.amount), claim.proof];
+
+  const outcome = await withLock(RELAY_LOCK_KEY, LOCK_TTL_MS, async (): Promise<RelayResult> => {
+    const spendKey = relaySpendKey(payload.round);
+    const spent = (await readJson<RoundSpend>(spendKey)) ?? { round: payload.round, claims: 0, wei: "0", updatedAt: "" };
+
+    // estimateGas runs the call, so a claim that would revert is refused before any gas is spent
+    let gas: bigint;
+    try {
+      gas = await contract.claim.estimateGas(...args);
+    } catch (e) {
+      const code = (e as { reason?: string }).reason;
+      return { ...fail(409, `Claim would revert: ${revertReason(e)}`), ...(code ? { code } : {}) };
+    }
+    const fees = await provider.getFeeData();
+    const cost = gas * (fees.maxFeePerGas ?? fees.gasPrice ?? 0n);
+    if (spent.claims + 1 > budget.maxClaims || BigInt(spent.wei) + cost > budget.maxWei) {
+      return fail(503, `Gasless budget for round ${payload.round} is used up; claim with your own wallet`);
+    }
+
+    const nonce = await provider.getTransactionCount(wallet.address, "pending");
+    const tx = await contract.claim(...args, { nonce, gasLimit: gas });
+
+    // Reserve the worst case now; settle to the real cost once mined
+    let next: RoundSpend = {
+      round: payload.round,
+      claims: spent.claims + 1,
+      wei: (BigInt(spent.wei) + cost).toString(),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeJson(spendKey, JSON.stringify(next));
+
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait(1, waitMs);
+    } catch (e) {
+      if ((e as { code?: string }).code === "TIMEOUT") {
+        return { ok: true, status: "pending", txHash: tx.hash, account: claim.account, round: payload.round, amount: claim.amount, spent: next };
+      }
+      return fail(500, `Relayed claim failed: ${revertReason(e)}`);
+    }
+    if (!receipt || receipt.status === 0) return fail(500, "Relayed claim reverted");
+
+    next = { ...next, wei: (BigInt(spent.wei) + receipt.gasUsed * receipt.gasPrice).toString() };
+    await writeJson(spendKey, JSON.stringify(next));
+    return { ok: true, status: "mined", txHash: tx.hash, account: claim.account, round: payload.round, amount: claim.amount, spent: next };
+  }, `relay ${claim.account}`);
+
+  if (!outcome.acquired) return fail(503, "Relayer is busy; try again in a moment", 2);
+  return outcome.value;
+}
@@ -0,0 +1,102 @@
+// Reward policies: how much each eligible account earns in a round.
+// The policy is written into the payload and every claim carries its breakdown,
+// so the claim page can show how an amount was computed.
+// Plain bigint math, no imports, so backend/ tests can load it like lib/merkle.ts.
+//
+// Non-flat policies give accounts different amounts. MerkleDistributor only pays
+// exactly rewardAmount, so they need the cumulative distributor (CLAIMS_MODE=cumulative).
+
+export type RewardTier = {
+  minCount: number;        // applies from this many mints in the round
+  multiplierBps: number;   // 10000 = 1x
+};
+
+export type RewardPolicy = {
+  id: string;
+  version: number;
+  base: "flat" | "perNft";   // one unit per account, or one unit per NFT minted
+  unit?: string;             // wei per unit; defaults to the distributor's rewardAmount
+  tiers?: RewardTier[];      // highest tier whose minCount is reached applies
+  capPerAccount?: string;    // wei, per round
+};
+
+export type RewardBreakdown = {
+  policy: string;          // `${id}@${version}`
+  count: number;           // NFTs minted (or held) in the round
+  units: number;
+  unit: string;
+  multiplierBps: number;
+  uncapped: string;
+  amount: string;          // what the account earned in this round
+};
+
+export const FLAT_POLICY: RewardPolicy = { id: "flat", version: 1, base: "flat" };
+
+const BPS = 10_000n;
+
+// Pays exactly rewardAmount to every eligible account, like before policies existed
+export function isFlatPolicy(policy: RewardPolicy) {
+  return policy.base === "flat" && policy.unit === undefined && !policy.tiers?.length && policy.capPerAccount === undefined;
+}
+
+export function policyLabel(policy: RewardPolicy) {
+  return `${policy.id}@${policy.version}`;
+}
+
+function isIntString(v: unknown) {
+  return typeof v === "string" && /^\d+$/.test(v);
+}
+
+// Validates REWARD_POLICY (JSON); throws with the offending field
+export function parseRewardPolicy(raw: string | undefined): RewardPolicy {
+  if (!raw) return FLAT_POLICY;
+  const p = JSON.parse(raw) as RewardPolicy;
+  if (typeof p.id !== "string" || !p.id) throw new Error("reward policy: id is required");
+  if (!Number.isInteger(p.version) || p.version < 1) throw new Error("reward policy: version must be a positive integer");
+  if (p.base !== "flat" && p.base !== "perNft") throw new Error(`reward policy: unknown base "${p.base}"`);
+  if (p.unit !== undefined && !isIntString(p.unit)) throw new Error("reward policy: unit must be a wei string");
+  if (p.capPerAccount !== undefined && !isIntString(p.capPerAccount)) throw new Error("reward policy: capPerAccount must be a wei string");
+  for (const t of p.tiers ?? []) {
+    if (!Number.isInteger(t.minCount) || t.minCount < 1 || !Number.isInteger(t.multiplierBps) || t.multiplierBps < 0) {
+      throw new Error("reward policy: tiers need integer minCount >= 1 and multiplierBps >= 0");
+    }
+  }
+  return p;
+}
+
+export function rewardFor(count: number, policy: RewardPolicy, rewardAmount: bigint): RewardBreakdown {
+  const unit = policy.unit !== undefined ? BigInt(policy.unit) : rewardAmount;
+  const units = policy.base === "perNft" ? count : count > 0 ? 1 : 0;
+  const tier = [...(policy.tiers ?? [])]
+    .sort((a, b) => b.minCount - a.minCount)
+    .find((t) => count >= t.minCount);
+  const multiplierBps = tier?.multiplierBps ?? Number(BPS);
+
+  const uncapped = (unit * BigInt(units) * BigInt(multiplierBps)) / BPS;
+  const cap = policy.capPerAccount !== undefined ? BigInt(policy.capPerAccount) : undefined;
+  const amount = cap !== undefined && uncapped > cap ? cap : uncapped;
+
+  return {
+    policy: policyLabel(policy),
+    count,
+    units,
+    unit: unit.toString(),
+    multiplierBps,
+    uncapped: uncapped.toString(),
+    amount: amount.toString(),
+  };
+}
+
+// counts: account → NFTs in the round. Accounts that end up with 0 are dropped.
+export function computeRewards(
+  counts: Map<`0x${string}`, number>,
+  policy: RewardPolicy,
+  rewardAmount: bigint
+): Map<`0x${string}`, RewardBreakdown> {
+  const out = new Map<`0x${string}`, RewardBreakdown>();
+  for (const [account, count] of counts) {
+    const r = rewardFor(count, policy, rewardAmount);
+    if (BigInt(r.amount) > 0n) out.set(account, r);
+  }
+  return out;
+}
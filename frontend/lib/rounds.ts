@@ -0,0 +1,140 @@
+import { ethers, type Provider } from "ethers";
+
+// Round ↔ block mapping shared by the Next builder and the Hardhat script.
+// Only depends on ethers, so backend/scripts can import it by relative path.
+
+export const SECONDS_PER_ROUND = 3600;
+
+const TRANSFER_SIG = ethers.id("Transfer(address,address,uint256)");
+const ZERO32 = "0x" + "0".repeat(64);
+
+export function roundOf(timestamp: number) {
+  return Math.floor(timestamp / SECONDS_PER_ROUND);
+}
+
+// [start, end) in unix seconds
+export function roundBounds(round: number): [number, number] {
+  return [round * SECONDS_PER_ROUND, (round + 1) * SECONDS_PER_ROUND];
+}
+
+function isRangeError(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  return /block range|range (is )?too (large|wide)|too many|more than \d+ results|response size|exceed|limit/i.test(msg);
+}
+
+export type ChunkOptions = {
+  chunk?: number;
+  minChunk?: number;
+  maxChunk?: number;
+};
+
+// eth_getLogs over [fromBlock, toBlock], halving the range when the RPC rejects it
+// and widening it again (up to the largest accepted size) after each success
+export async function getLogsAdaptive(
+  provider: Provider,
+  filter: { address: string; topics: (string | string[] | null)[] },
+  fromBlock: number,
+  toBlock: number,
+  opts: ChunkOptions = {}
+): Promise<{ logs: ethers.Log[]; chunk: number }> {
+  const minChunk = opts.minChunk ?? 1;
+  const maxChunk = opts.maxChunk ?? Number(process.env.INDEXER_MAX_CHUNK ?? 2000);
+  let chunk = Math.min(Math.max(opts.chunk ?? Number(process.env.INDEXER_CHUNK_SIZE ?? 10), minChunk), maxChunk);
+  let ceiling = maxChunk;
+  const logs: ethers.Log[] = [];
+
+  for (let start = fromBlock; start <= toBlock; ) {
+    const end = Math.min(start + chunk - 1, toBlock);
+    try {
+      logs.push(...(await provider.getLogs({ ...filter, fromBlock: start, toBlock: end })));
+    } catch (e) {
+      if (isRangeError(e) && chunk > minChunk) {
+        ceiling = chunk - 1;
+        chunk = Math.max(minChunk, Math.floor(chunk / 2));
+        continue;
+      }
+      throw e;
+    }
+    start = end + 1;
+    chunk = Math.min(ceiling, chunk * 2);
+  }
+  return { logs, chunk };
+}
+
+export function mintLogsFilter(nft: string) {
+  return { address: nft, topics: [TRANSFER_SIG, ZERO32] };
+}
+
+// Smallest block in [lo, hi] whose timestamp is >= ts, or hi + 1 if there is none
+async function firstBlockAtOrAfter(provider: Provider, ts: number, lo: number, hi: number) {
+  let left = lo;
+  let right = hi + 1;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    const block = await provider.getBlock(mid);
+    if (!block) throw new Error(`Block ${mid} not found`);
+    if (block.timestamp >= ts) right = mid;
+    else left = mid + 1;
+  }
+  return left;
+}
+
+export type RoundBlockRange = {
+  round: number;
+  fromBlock: number;
+  toBlock: number;      // < fromBlock when no block falls inside the round
+  final: boolean;       // the chain has moved past the round, so the range cannot grow
+};
+
+export async function blockRangeForRound(provider: Provider, round: number, latest?: number): Promise<RoundBlockRange> {
+  const [start, end] = roundBounds(round);
+  const head = latest ?? (await provider.getBlockNumber());
+  const headBlock = await provider.getBlock(head);
+  if (!headBlock) throw new Error(`Block ${head} not found`);
+  if (start > headBlock.timestamp) throw new Error(`Round ${round} has not started yet`);
+
+  const fromBlock = await firstBlockAtOrAfter(provider, start, 0, head);
+  const toBlock = (await firstBlockAtOrAfter(provider, end, fromBlock, head)) - 1;
+  return { round, fromBlock, toBlock, final: headBlock.timestamp >= end };
+}
+
+export type RoundMint = {
+  account: `0x${string}`;
+  tokenId: string;
+  blockNumber: number;
+  txHash: `0x${string}`;
+  logIndex: number;
+};
+
+export function decodeMintLog(log: ethers.Log): RoundMint {
+  return {
+    account: ethers.getAddress("0x" + log.topics[2].slice(26)) as `0x${string}`,
+    tokenId: BigInt(log.topics[3]).toString(),
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash as `0x${string}`,
+    logIndex: log.index,
+  };
+}
+
+// Every mint whose block timestamp falls inside the round, independent of when this runs
+export async function scanRoundMints(provider: Provider, nft: string, round: number, opts: ChunkOptions = {}) {
+  const range = await blockRangeForRound(provider, round);
+  if (range.toBlock < range.fromBlock) return { range, mints: [] as RoundMint[] };
+  const { logs } = await getLogsAdaptive(provider, mintLogsFilter(nft), range.fromBlock, range.toBlock, opts);
+  return { range, mints: logs.map(decodeMintLog) };
+}
+
+// Unique minters in checksum form, sorted, so the same round always yields the same list
+export function uniqueMinters(mints: { account: `0x${string}` }[]): `0x${string}`[] {
+  return Array.from(new Set(mints.map((m) => ethers.getAddress(m.account) as `0x${string}`))).sort();
+}
+
+// NFTs minted per account, keyed in checksum form
+export function mintCounts(mints: { account: `0x${string}` }[]): Map<`0x${string}`, number> {
+  const counts = new Map<`0x${string}`, number>();
+  for (const m of mints) {
+    const a = ethers.getAddress(m.account) as `0x${string}`;
+    counts.set(a, (counts.get(a) ?? 0) + 1);
+  }
+  return counts;
+}
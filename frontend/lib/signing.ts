@@ -0,0 +1,212 @@
+import { ethers } from "ethers";
+import { computePayloadRoot, verifyClaim, type Claim, type Hex32, type PayloadSignature, type ProofsPayload } from "./merkle";
+
+// The builder signs each payload with the publisher key (the distributor owner, since it
+// also calls setRoot). The claim page checks the content hash, the signature, the tree
+// and the on-chain root before it lets anyone claim. Ethers-only and relative imports,
+// like lib/merkle.ts, so backend/ tests can load it.
+
+export const CLAIMS_PAYLOAD_TYPES = {
+  ClaimsPayload: [
+    { name: "mode", type: "string" },
+    { name: "round", type: "uint64" },
+    { name: "root", type: "bytes32" },
+    { name: "contentHash", type: "bytes32" },
+  ],
+};
+
+export function claimsDomain(chainId: number, distributor: `0x${string}`): ethers.TypedDataDomain {
+  return { name: "MRT Claims", version: "1", chainId, verifyingContract: distributor };
+}
+
+// JSON with keys sorted at every level, so the hash does not depend on field order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function payloadContentHash(payload: ProofsPayload): Hex32 {
+  // Everything but the hash itself and the signature over it
+  const content: Partial<ProofsPayload> = { ...payload, mode: payload.mode ?? "round" };
+  delete content.contentHash;
+  delete content.signature;
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(content))) as Hex32;
+}
+
+function typedMessage(payload: Pick<ProofsPayload, "mode" | "round" | "root">, contentHash: Hex32) {
+  return { mode: payload.mode ?? "round", round: BigInt(payload.round), root: payload.root, contentHash };
+}
+
+export async function signPayload(
+  signer: ethers.Signer,
+  payload: ProofsPayload,
+  chainId: number,
+  distributor: `0x${string}`
+): Promise<ProofsPayload> {
+  const contentHash = payloadContentHash(payload);
+  const signature = (await signer.signTypedData(
+    claimsDomain(chainId, distributor),
+    CLAIMS_PAYLOAD_TYPES,
+    typedMessage(payload, contentHash)
+  )) as `0x${string}`;
+  const sig: PayloadSignature = {
+    scheme: "eip712",
+    signer: (await signer.getAddress()) as `0x${string}`,
+    chainId,
+    distributor: ethers.getAddress(distributor) as `0x${string}`,
+    signature,
+  };
+  return { ...payload, contentHash, signature: sig };
+}
+
+export type PayloadCheck =
+  | { status: "ok" }
+  | { status: "unsigned"; reason: string }                 // consistent, but nobody vouches for it
+  | { status: "stale" | "tampered"; reason: string };
+
+export type PayloadExpectations = {
+  distributor: `0x${string}`;
+  signer: `0x${string}`;           // usually distributor.owner(); never taken from the file itself
+  onchainRoot?: `0x${string}`;
+  onchainRound?: bigint | number;
+};
+
+// Everything but the claims list: what the per-account proof endpoint returns alongside one claim
+export type ProofsHeader = Omit<ProofsPayload, "claims">;
+
+function checkSignature(header: ProofsHeader, contentHash: Hex32, expect: PayloadExpectations): PayloadCheck | undefined {
+  const sig = header.signature;
+  if (!sig) return undefined;
+  if (sig.distributor.toLowerCase() !== expect.distributor.toLowerCase()) {
+    return { status: "tampered", reason: "signed for a different distributor" };
+  }
+  let recovered: string;
+  try {
+    recovered = ethers.verifyTypedData(
+      claimsDomain(sig.chainId, sig.distributor),
+      CLAIMS_PAYLOAD_TYPES,
+      typedMessage(header, contentHash),
+      sig.signature
+    );
+  } catch {
+    return { status: "tampered", reason: "malformed signature" };
+  }
+  if (recovered.toLowerCase() !== expect.signer.toLowerCase()) {
+    return { status: "tampered", reason: `signed by ${recovered}, expected ${expect.signer}` };
+  }
+  return undefined;
+}
+
+function checkOnchain(header: ProofsHeader, expect: PayloadExpectations): PayloadCheck {
+  if (expect.onchainRoot && expect.onchainRoot.toLowerCase() !== header.root.toLowerCase()) {
+    return { status: "stale", reason: "published root differs from the distributor's merkleRoot()" };
+  }
+  if (expect.onchainRound !== undefined && BigInt(expect.onchainRound) !== BigInt(header.round)) {
+    return { status: "stale", reason: `file is for round ${header.round}, distributor is on round ${expect.onchainRound}` };
+  }
+  return header.signature ? { status: "ok" } : { status: "unsigned", reason: "payload carries no publisher signature" };
+}
+
+export function checkPayload(payload: ProofsPayload, expect: PayloadExpectations): PayloadCheck {
+  const contentHash = payloadContentHash(payload);
+  if (payload.contentHash && payload.contentHash.toLowerCase() !== contentHash.toLowerCase()) {
+    return { status: "tampered", reason: "content hash does not match the file" };
+  }
+  const badSignature = checkSignature(payload, contentHash, expect);
+  if (badSignature) return badSignature;
+
+  if (computePayloadRoot(payload).toLowerCase() !== payload.root.toLowerCase()) {
+    return { status: "tampered", reason: "claims do not hash to the published root" };
+  }
+  return checkOnchain(payload, expect);
+}
+
+// Single-claim variant: the signature vouches for (root, contentHash), the proof ties the claim to root
+export function checkClaimProof(header: ProofsHeader, claim: Claim, expect: PayloadExpectations): PayloadCheck {
+  if (header.signature) {
+    if (!header.contentHash) return { status: "tampered", reason: "signed header without a content hash" };
+    const badSignature = checkSignature(header, header.contentHash, expect);
+    if (badSignature) return badSignature;
+  }
+  if (!verifyClaim({ ...header, claims: [] }, claim)) {
+    return { status: "tampered", reason: "proof does not lead to the published root" };
+  }
+  return checkOnchain(header, expect);
+}
+
+// Gasless claims: the wallet signs a ClaimRequest and the relayer (lib/relayer.ts) submits
+// claim() for it. root pins the proofs file the wallet saw, so a republished root needs a new signature.
+export const CLAIM_REQUEST_TYPES = {
+  ClaimRequest: [
+    { name: "account", type: "address" },
+    { name: "round", type: "uint64" },
+    { name: "amount", type: "uint256" },
+    { name: "root", type: "bytes32" },
+    { name: "deadline", type: "uint64" },
+  ],
+};
+
+export type ClaimRequest = {
+  account: `0x${string}`;
+  round: number;
+  amount: string;
+  root: `0x${string}`;
+  deadline: number;   // unix seconds
+};
+
+// Left to inference so the claim page can hand it to wagmi's signTypedData unchanged
+export function relayDomain(chainId: number, distributor: `0x${string}`) {
+  return { name: "MRT Claims Relay", version: "1", chainId, verifyingContract: distributor };
+}
+
+export function claimRequestMessage(req: ClaimRequest) {
+  return {
+    account: req.account,
+    round: BigInt(req.round),
+    amount: BigInt(req.amount),
+    root: req.root,
+    deadline: BigInt(req.deadline),
+  };
+}
+
+// Address that signed req; throws on malformed signatures
+export function recoverClaimRequest(req: ClaimRequest, signature: string, chainId: number, distributor: `0x${string}`): string {
+  return ethers.verifyTypedData(relayDomain(chainId, distributor), CLAIM_REQUEST_TYPES, claimRequestMessage(req), signature);
+}
+
+// Operator dashboard (/admin): the distributor owner signs a short-lived session once,
+// and /api/admin accepts it until expiresAt instead of asking for a signature per request
+export const ADMIN_SESSION_PURPOSE = "MRT operator dashboard";
+
+export const ADMIN_SESSION_TYPES = {
+  AdminSession: [
+    { name: "purpose", type: "string" },
+    { name: "issuedAt", type: "uint64" },
+    { name: "expiresAt", type: "uint64" },
+  ],
+};
+
+export type AdminSession = {
+  purpose: string;
+  issuedAt: number;   // unix seconds
+  expiresAt: number;
+};
+
+export function adminDomain(chainId: number, distributor: `0x${string}`) {
+  return { name: "MRT Admin", version: "1", chainId, verifyingContract: distributor };
+}
+
+export function adminSessionMessage(session: AdminSession) {
+  return { purpose: session.purpose, issuedAt: BigInt(session.issuedAt), expiresAt: BigInt(session.expiresAt) };
+}
+
+// Address that signed session; throws on malformed signatures
+export function recoverAdminSession(session: AdminSession, signature: string, chainId: number, distributor: `0x${string}`): string {
+  return ethers.verifyTypedData(adminDomain(chainId, distributor), ADMIN_SESSION_TYPES, adminSessionMessage(session), signature);
+}
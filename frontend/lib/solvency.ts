@@ -0,0 +1,117 @@
+import { Contract, ethers, type Provider } from "ethers";
+import type { Claim, ProofsPayload } from "@/lib/merkle";
+
+// Can the distributor pay out everything the new root makes claimable?
+// Round mode: only the new round is claimable, minus accounts that already claimed it.
+// Cumulative mode: each account can still claim total - claimed(account).
+// The per-account reads go through Multicall3 in batches; without it, a few at a time.
+
+export type SolvencyStatus = "ok" | "low" | "underfunded";
+
+export type Solvency = {
+  status: SolvencyStatus;
+  token: `0x${string}`;
+  balance: string;
+  required: string;       // outstanding unclaimed amount under the new root
+  shortfall: string;      // max(0, required - balance)
+  unclaimedAccounts: number;
+};
+
+const READ_ABI = [
+  "function token() view returns (address)",
+  "function isClaimed(uint64 r, address a) view returns (bool)",
+  "function claimed(address a) view returns (uint256)",
+] as const;
+
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"] as const;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+] as const;
+
+// Same address on every chain that has it (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const READS = new ethers.Interface(READ_ABI);
+
+export type SolvencyOptions = {
+  headroom?: number;
+  multicall?: `0x${string}`;
+  batch?: number;         // reads per aggregate3 call
+  concurrency?: number;   // parallel reads when there is no Multicall3
+};
+
+// What each claim can still take: round mode isClaimed(round, a), cumulative claimed(a)
+async function outstandingAmounts(
+  provider: Provider,
+  distributor: `0x${string}`,
+  payload: ProofsPayload,
+  opts: SolvencyOptions
+): Promise<bigint[]> {
+  const cumulative = payload.mode === "cumulative";
+  const encode = (c: Claim) =>
+    cumulative
+      ? READS.encodeFunctionData("claimed", [c.account])
+      : READS.encodeFunctionData("isClaimed", [BigInt(payload.round), c.account]);
+  const outstanding = (c: Claim, returnData: string) => {
+    const amount = BigInt(c.amount);
+    if (cumulative) {
+      const paid = READS.decodeFunctionResult("claimed", returnData)[0] as bigint;
+      return amount > paid ? amount - paid : 0n;
+    }
+    return READS.decodeFunctionResult("isClaimed", returnData)[0] ? 0n : amount;
+  };
+
+  const claims = payload.claims;
+  const out: bigint[] = [];
+  const multicall = opts.multicall ?? (process.env.MULTICALL3_ADDRESS as `0x${string}` | undefined) ?? MULTICALL3_ADDRESS;
+
+  if (claims.length > 0 && (await provider.getCode(multicall)) !== "0x") {
+    const batch = opts.batch ?? Number(process.env.SOLVENCY_BATCH ?? 500);
+    const mc = new Contract(multicall, MULTICALL3_ABI, provider);
+    for (let i = 0; i < claims.length; i += batch) {
+      const slice = claims.slice(i, i + batch);
+      const results = (await mc.aggregate3.staticCall(
+        slice.map((c) => ({ target: distributor, allowFailure: false, callData: encode(c) }))
+      )) as { success: boolean; returnData: string }[];
+      slice.forEach((c, j) => out.push(outstanding(c, results[j].returnData)));
+    }
+    return out;
+  }
+
+  const concurrency = Math.max(1, opts.concurrency ?? Number(process.env.SOLVENCY_CONCURRENCY ?? 8));
+  for (let i = 0; i < claims.length; i += concurrency) {
+    const slice = claims.slice(i, i + concurrency);
+    const results = await Promise.all(slice.map((c) => provider.call({ to: distributor, data: encode(c) })));
+    slice.forEach((c, j) => out.push(outstanding(c, results[j])));
+  }
+  return out;
+}
+
+export async function checkSolvency(
+  provider: Provider,
+  distributor: `0x${string}`,
+  payload: ProofsPayload,
+  opts: SolvencyOptions = {}
+): Promise<Solvency> {
+  const headroom = opts.headroom ?? Number(process.env.SOLVENCY_HEADROOM ?? 2);
+  const dist = new Contract(distributor, READ_ABI, provider);
+  const token = (await dist.token()) as `0x${string}`;
+  const balance = (await new Contract(token, ERC20_ABI, provider).balanceOf(distributor)) as bigint;
+
+  const outstanding = await outstandingAmounts(provider, distributor, payload, opts);
+
+  const required = outstanding.reduce((sum, x) => sum + x, 0n);
+  const shortfall = required > balance ? required - balance : 0n;
+  // headroom is a multiplier on what is owed now; below it the next rounds may not be covered
+  const lowMark = (required * BigInt(Math.round(headroom * 100))) / 100n;
+
+  return {
+    status: shortfall > 0n ? "underfunded" : balance < lowMark ? "low" : "ok",
+    token,
+    balance: balance.toString(),
+    required: required.toString(),
+    shortfall: shortfall.toString(),
+    unclaimedAccounts: outstanding.filter((x) => x > 0n).length,
+  };
+}
@@ -0,0 +1,70 @@
+import path from "node:path";
+import { fsStore } from "@/lib/stores/fs";
+import { blobStatePrefix, blobStore } from "@/lib/stores/blob";
+import { s3ConfigFromEnv, s3Store } from "@/lib/stores/s3";
+import { ipfsStore } from "@/lib/stores/ipfs";
+import { prefixedStore, splitStore, type ClaimsStore, type ClaimsStoreKind } from "@/lib/stores/base";
+
+export { isPublicKey, publicBase, type ClaimsStore, type ClaimsStoreKind } from "@/lib/stores/base";
+
+// Where the builder keeps claims/current.json, the ledger, round archives and its own state.
+// CLAIMS_STORE picks the backend:
+//   fs   → files under CLAIMS_FS_ROOT (default ./public), served by Next itself; works offline
+//   blob → Vercel Blob (BLOB_READ_WRITE_TOKEN)
+//   s3   → any S3-compatible bucket (S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)
+//   ipfs → pinned through Pinata (PINATA_JWT); keys resolve to their newest pin
+// Unset → blob when a Blob token exists, otherwise fs.
+//
+// Only isPublicKey() keys are published; builder state goes somewhere readers cannot fetch:
+//   fs   → CLAIMS_FS_STATE_ROOT (default ./.claims-state), outside what Next serves
+//   blob → under BLOB_STATE_PREFIX (default derived from the token); Blob 1.x has no private access,
+//          so this is an unguessable path, not an access check
+//   s3   → under S3_STATE_PREFIX (default state/) in S3_STATE_BUCKET (default S3_BUCKET);
+//          expose only claims/ on the public side
+//   ipfs → pins are content-addressed and unlisted without the JWT, but not private
+
+export function configuredStoreKind(): ClaimsStoreKind {
+  const kind = process.env.CLAIMS_STORE;
+  if (kind === "fs" || kind === "blob" || kind === "s3" || kind === "ipfs") return kind;
+  if (kind) throw new Error(`Unknown CLAIMS_STORE "${kind}"`);
+  return process.env.BLOB_READ_WRITE_TOKEN ? "blob" : "fs";
+}
+
+export function createClaimsStore(kind = configuredStoreKind()): ClaimsStore {
+  switch (kind) {
+    case "fs":
+      return splitStore(fsStore(), fsStore(process.env.CLAIMS_FS_STATE_ROOT ?? path.join(process.cwd(), ".claims-state")));
+    case "blob":
+      return splitStore(blobStore(), prefixedStore(blobStore(), blobStatePrefix()));
+    case "s3": {
+      const cfg = s3ConfigFromEnv();
+      const state = s3Store({ ...cfg, bucket: process.env.S3_STATE_BUCKET ?? cfg.bucket });
+      return splitStore(s3Store(cfg), prefixedStore(state, process.env.S3_STATE_PREFIX ?? "state"));
+    }
+    case "ipfs": return ipfsStore();
+  }
+}
+
+let store: ClaimsStore | undefined;
+
+export function getClaimsStore(): ClaimsStore {
+  return (store ??= createClaimsStore());
+}
+
+// For scripts and tests that bring their own backend
+export function setClaimsStore(next: ClaimsStore) {
+  store = next;
+}
+
+export async function readJson<T>(key: string): Promise<T | undefined> {
+  const body = await getClaimsStore().read(key);
+  return body === undefined ? undefined : (JSON.parse(body) as T);
+}
+
+export async function writeJson(key: string, body: string): Promise<string> {
+  return getClaimsStore().write(key, body);
+}
+
+export async function deleteKey(key: string): Promise<void> {
+  await getClaimsStore().delete(key);
+}
@@ -0,0 +1,67 @@
+// Contract every claims storage backend implements; see lib/store.ts for selection
+
+export type ClaimsStoreKind = "fs" | "blob" | "s3" | "ipfs";
+
+export interface ClaimsStore {
+  readonly kind: ClaimsStoreKind;
+  // Stable public URL for key, when the backend has one
+  url(key: string): string | undefined;
+  // undefined → the key does not exist; throws on transport errors
+  read(key: string): Promise<string | undefined>;
+  // Returns where the body can be fetched from
+  write(key: string, body: string): Promise<string>;
+  // Writes only if key is absent; false when it already exists
+  create(key: string, body: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// NEXT_PUBLIC_CLAIMS_BASE_URL overrides every backend's public URL (CDN, custom domain)
+export function publicBase(fallback?: string): string | undefined {
+  const base = process.env.NEXT_PUBLIC_CLAIMS_BASE_URL ?? fallback;
+  return base === undefined ? undefined : base.replace(/\/+$/, "");
+}
+
+// Only the published proofs and the round archives are meant to be read by anyone.
+// Everything else (ledger, indexer checkpoint, leases, pending tx, reports, ...) is builder state.
+export function isPublicKey(key: string): boolean {
+  return key === "claims/current.json" || key.startsWith("claims/rounds/");
+}
+
+// Same backend, keys moved under prefix and never given a public URL
+export function prefixedStore(inner: ClaimsStore, prefix: string): ClaimsStore {
+  const at = (key: string) => `${prefix.replace(/\/+$/, "")}/${key}`;
+  return {
+    kind: inner.kind,
+    url: () => undefined,
+    read: (key) => inner.read(at(key)),
+    write: (key, body) => inner.write(at(key), body),
+    create: (key, body) => inner.create(at(key), body),
+    delete: (key) => inner.delete(at(key)),
+  };
+}
+
+// Public keys go to publicStore, builder state to privateStore. State written by older builds
+// next to the public files is moved over the first time it is read.
+export function splitStore(publicStore: ClaimsStore, privateStore: ClaimsStore): ClaimsStore {
+  const pick = (key: string) => (isPublicKey(key) ? publicStore : privateStore);
+
+  async function migrate(key: string): Promise<string | undefined> {
+    const legacy = await publicStore.read(key);
+    if (legacy === undefined) return undefined;
+    await privateStore.create(key, legacy);
+    await publicStore.delete(key);
+    return privateStore.read(key);
+  }
+
+  return {
+    kind: publicStore.kind,
+    url: (key) => (isPublicKey(key) ? publicStore.url(key) : undefined),
+    async read(key) {
+      if (isPublicKey(key)) return publicStore.read(key);
+      return (await privateStore.read(key)) ?? migrate(key);
+    },
+    write: (key, body) => pick(key).write(key, body),
+    create: (key, body) => pick(key).create(key, body),
+    delete: (key) => pick(key).delete(key),
+  };
+}
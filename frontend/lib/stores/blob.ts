@@ -0,0 +1,53 @@
+import crypto from "node:crypto";
+import { del, put } from "@vercel/blob";
+import { publicBase, type ClaimsStore } from "@/lib/stores/base";
+
+// Vercel Blob: writes go through the SDK, reads through the public host with a cache-buster
+export function blobStore(
+  readHost = process.env.BLOB_READ_HOST ?? "1knr7tukuhrzgbyl.public.blob.vercel-storage.com",
+  token = process.env.BLOB_READ_WRITE_TOKEN
+): ClaimsStore {
+  const base = publicBase(`https://${readHost}`)!;
+  const url = (key: string) => `${base}/${key}`;
+
+  const upload = async (key: string, body: string, allowOverwrite: boolean) =>
+    (await put(key, body, {
+      access: "public",
+      addRandomSuffix: false,
+      contentType: "application/json",
+      token,
+      allowOverwrite,
+    })).url;
+
+  return {
+    kind: "blob",
+    url,
+    async read(key) {
+      const res = await fetch(`${url(key)}?v=${Date.now()}`, { cache: "no-store" });
+      if (res.status === 404) return undefined;
+      if (!res.ok) throw new Error(`GET ${key} → HTTP ${res.status}`);
+      return res.text();
+    },
+    async write(key, body) {
+      return upload(key, body, true);
+    },
+    async create(key, body) {
+      try {
+        await upload(key, body, false);
+        return true;
+      } catch (e) {
+        // Blob has no dedicated "exists" error; only report a conflict when the key is really there
+        if ((await this.read(key)) !== undefined) return false;
+        throw e;
+      }
+    },
+    async delete(key) {
+      await del(key, { token });
+    },
+  };
+}
+
+// Builder state lives under a path nobody can guess without the token (see lib/store.ts)
+export function blobStatePrefix(token = process.env.BLOB_READ_WRITE_TOKEN ?? ""): string {
+  return process.env.BLOB_STATE_PREFIX ?? `state-${crypto.createHash("sha256").update(`claims-state:${token}`).digest("hex").slice(0, 32)}`;
+}
@@ -0,0 +1,51 @@
+import fs from "node:fs";
+import path from "node:path";
+import { publicBase, type ClaimsStore } from "@/lib/stores/base";
+
+// Keys are paths under root. With the default root (./public) Next serves them at /<key>.
+export function fsStore(root = process.env.CLAIMS_FS_ROOT ?? path.join(process.cwd(), "public")): ClaimsStore {
+  const file = (key: string) => {
+    const p = path.resolve(root, key);
+    if (!p.startsWith(path.resolve(root) + path.sep)) throw new Error(`Key escapes store root: ${key}`);
+    return p;
+  };
+  const base = publicBase("");
+
+  return {
+    kind: "fs",
+    url(key) {
+      return `${base}/${key}`;
+    },
+    async read(key) {
+      try {
+        return await fs.promises.readFile(file(key), "utf8");
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw e;
+      }
+    },
+    async write(key, body) {
+      const p = file(key);
+      await fs.promises.mkdir(path.dirname(p), { recursive: true });
+      // write-then-rename so readers never see a half-written file
+      const tmp = `${p}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, body);
+      await fs.promises.rename(tmp, p);
+      return this.url(key)!;
+    },
+    async create(key, body) {
+      const p = file(key);
+      await fs.promises.mkdir(path.dirname(p), { recursive: true });
+      try {
+        await fs.promises.writeFile(p, body, { flag: "wx" });
+        return true;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "EEXIST") return false;
+        throw e;
+      }
+    },
+    async delete(key) {
+      await fs.promises.rm(file(key), { force: true });
+    },
+  };
+}
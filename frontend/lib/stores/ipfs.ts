@@ -0,0 +1,72 @@
+import { publicBase, type ClaimsStore } from "@/lib/stores/base";
+
+// IPFS through Pinata's pinning API. Content is immutable, so a key maps to its newest pin
+// (pin name = key) and older pins of the same key are unpinned after each write.
+// There is no stable URL per key unless NEXT_PUBLIC_CLAIMS_BASE_URL points at a gateway
+// path you keep updated; otherwise readers go through /api/claims/current.
+
+const PINATA_API = "https://api.pinata.cloud";
+
+type PinRow = { ipfs_pin_hash: string; date_pinned: string; metadata?: { name?: string } };
+
+export function ipfsStore(
+  jwt = process.env.PINATA_JWT ?? "",
+  gateway = (process.env.IPFS_GATEWAY ?? "https://gateway.pinata.cloud").replace(/\/+$/, "")
+): ClaimsStore {
+  if (!jwt) throw new Error("IPFS store needs PINATA_JWT");
+  const auth = { Authorization: `Bearer ${jwt}` };
+  const base = publicBase();
+
+  async function pins(key: string): Promise<PinRow[]> {
+    const q = new URLSearchParams({ status: "pinned", "metadata[name]": key, pageLimit: "100" });
+    const res = await fetch(`${PINATA_API}/data/pinList?${q}`, { headers: auth, cache: "no-store" });
+    if (!res.ok) throw new Error(`Pinata pinList ${key} → HTTP ${res.status}`);
+    const rows = ((await res.json()) as { rows?: PinRow[] }).rows ?? [];
+    // the name filter is a substring match
+    return rows
+      .filter((r) => r.metadata?.name === key)
+      .sort((a, b) => Date.parse(b.date_pinned) - Date.parse(a.date_pinned));
+  }
+
+  async function unpin(cid: string) {
+    const res = await fetch(`${PINATA_API}/pinning/unpin/${cid}`, { method: "DELETE", headers: auth });
+    if (!res.ok && res.status !== 404) throw new Error(`Pinata unpin ${cid} → HTTP ${res.status}`);
+  }
+
+  return {
+    kind: "ipfs",
+    url(key) {
+      return base === undefined ? undefined : `${base}/${key}`;
+    },
+    async read(key) {
+      const [latest] = await pins(key);
+      if (!latest) return undefined;
+      const res = await fetch(`${gateway}/ipfs/${latest.ipfs_pin_hash}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`IPFS GET ${latest.ipfs_pin_hash} → HTTP ${res.status}`);
+      return res.text();
+    },
+    async write(key, body) {
+      const previous = await pins(key);
+      const res = await fetch(`${PINATA_API}/pinning/pinJSONToIPFS`, {
+        method: "POST",
+        headers: { ...auth, "Content-Type": "application/json" },
+        body: JSON.stringify({ pinataContent: JSON.parse(body), pinataMetadata: { name: key } }),
+      });
+      if (!res.ok) throw new Error(`Pinata pin ${key} → HTTP ${res.status}`);
+      const cid = ((await res.json()) as { IpfsHash: string }).IpfsHash;
+      for (const p of previous) {
+        if (p.ipfs_pin_hash !== cid) await unpin(p.ipfs_pin_hash).catch(() => undefined);
+      }
+      return `${gateway}/ipfs/${cid}`;
+    },
+    // Not atomic: pinning has no conditional write. Use REBUILD_LOCK=file or memory with this store.
+    async create(key, body) {
+      if ((await pins(key)).length > 0) return false;
+      await this.write(key, body);
+      return true;
+    },
+    async delete(key) {
+      for (const p of await pins(key)) await unpin(p.ipfs_pin_hash);
+    },
+  };
+}
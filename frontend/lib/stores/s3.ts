@@ -0,0 +1,120 @@
+import crypto from "node:crypto";
+import { publicBase, type ClaimsStore } from "@/lib/stores/base";
+
+// Any S3-compatible bucket (AWS, R2, MinIO, ...), path-style, signed with SigV4.
+// No SDK: four verbs on single small objects are all the builder needs.
+
+export type S3Config = {
+  endpoint: string;        // e.g. https://<account>.r2.cloudflarestorage.com
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string;      // where browsers read objects; defaults to endpoint/bucket
+};
+
+export function s3ConfigFromEnv(): S3Config {
+  const cfg = {
+    endpoint: process.env.S3_ENDPOINT ?? "",
+    bucket: process.env.S3_BUCKET ?? "",
+    region: process.env.S3_REGION ?? "auto",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID ?? "",
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+    publicUrl: process.env.S3_PUBLIC_URL,
+  };
+  if (!cfg.endpoint || !cfg.bucket || !cfg.accessKeyId || !cfg.secretAccessKey) {
+    throw new Error("S3 store needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  return cfg;
+}
+
+const sha256Hex = (data: string) => crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding per path segment, as SigV4 expects
+function encodeKey(key: string) {
+  return key.split("/").map((s) => encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join("/");
+}
+
+export function signS3Request(
+  cfg: S3Config,
+  method: string,
+  key: string,
+  body = "",
+  extraHeaders: Record<string, string> = {},
+  now = new Date()
+): { url: string; headers: Record<string, string> } {
+  const endpoint = new URL(cfg.endpoint);
+  const pathname = `/${cfg.bucket}/${encodeKey(key)}`;
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body);
+
+  const headers: Record<string, string> = {
+    host: endpoint.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    ...Object.fromEntries(Object.entries(extraHeaders).map(([k, v]) => [k.toLowerCase(), v])),
+  };
+  const names = Object.keys(headers).sort();
+  const canonical = [
+    method,
+    pathname,
+    "",
+    ...names.map((n) => `${n}:${headers[n].trim()}`),
+    "",
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${day}/${cfg.region}/s3/aws4_request`;
+  const toSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonical)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${cfg.secretAccessKey}`, day), cfg.region), "s3"), "aws4_request");
+  const signature = crypto.createHmac("sha256", signingKey).update(toSign).digest("hex");
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${cfg.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`;
+  delete headers.host; // fetch sets it
+  return { url: `${endpoint.origin}${pathname}`, headers };
+}
+
+export function s3Store(cfg: S3Config = s3ConfigFromEnv()): ClaimsStore {
+  const base = publicBase(cfg.publicUrl ?? `${cfg.endpoint.replace(/\/+$/, "")}/${cfg.bucket}`)!;
+
+  const send = (method: string, key: string, body?: string, headers: Record<string, string> = {}) => {
+    const req = signS3Request(cfg, method, key, body ?? "", headers);
+    return fetch(req.url, { method, headers: req.headers, body, cache: "no-store" });
+  };
+
+  const putObject = async (key: string, body: string, headers: Record<string, string> = {}) =>
+    send("PUT", key, body, { "content-type": "application/json", "cache-control": "no-cache", ...headers });
+
+  return {
+    kind: "s3",
+    url(key) {
+      return `${base}/${key}`;
+    },
+    async read(key) {
+      const res = await send("GET", key);
+      if (res.status === 404) return undefined;
+      if (!res.ok) throw new Error(`S3 GET ${key} → HTTP ${res.status}`);
+      return res.text();
+    },
+    async write(key, body) {
+      const res = await putObject(key, body);
+      if (!res.ok) throw new Error(`S3 PUT ${key} → HTTP ${res.status}`);
+      return this.url(key)!;
+    },
+    async create(key, body) {
+      // Conditional write; 412 means the object already exists
+      const res = await putObject(key, body, { "if-none-match": "*" });
+      if (res.status === 412) return false;
+      if (!res.ok) throw new Error(`S3 PUT ${key} → HTTP ${res.status}`);
+      return true;
+    },
+    async delete(key) {
+      const res = await send("DELETE", key);
+      if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${key} → HTTP ${res.status}`);
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { deleteKey, getClaimsStore } from "@/lib/store";
+import type { RoundMint } from "@/lib/rounds";
+
+// Alchemy ADDRESS_ACTIVITY webhooks already carry the mint Transfer logs,
+// so the builder can credit them without an eth_getLogs scan.
+
+export const WEBHOOK_EVENTS_PREFIX = "claims/webhook-events";
+
+const TRANSFER_SIG = ethers.id("Transfer(address,address,uint256)");
+const ZERO32 = "0x" + "0".repeat(64);
+
+type AlchemyLog = {
+  address?: string;
+  topics?: string[];
+  blockNumber?: string;
+  transactionHash?: string;
+  logIndex?: string;
+  removed?: boolean;
+};
+
+type AlchemyActivity = {
+  category?: string;
+  fromAddress?: string;
+  toAddress?: string;
+  blockNum?: string;
+  hash?: string;
+  erc721TokenId?: string;
+  rawContract?: { address?: string };
+  log?: AlchemyLog;
+};
+
+export type AlchemyWebhook = {
+  webhookId?: string;
+  id?: string;
+  type?: string;
+  event?: { network?: string; activity?: AlchemyActivity[] };
+};
+
+export type WebhookMints = {
+  eventId?: string;
+  mints: RoundMint[];
+  removed: RoundMint[];   // logs Alchemy re-sent with removed=true after a reorg
+  complete: boolean;      // false → some NFT activity had no usable log; do a full scan instead
+};
+
+function hexToNumber(hex: string | undefined) {
+  return hex === undefined ? NaN : Number(BigInt(hex));
+}
+
+export function parseAlchemyWebhook(raw: string, nft: string): WebhookMints | undefined {
+  let body: AlchemyWebhook;
+  try {
+    body = JSON.parse(raw) as AlchemyWebhook;
+  } catch {
+    return undefined;
+  }
+  if (body?.type !== "ADDRESS_ACTIVITY") return undefined;
+
+  const activity = body.event?.activity;
+  if (!Array.isArray(activity)) return { eventId: body.id, mints: [], removed: [], complete: false };
+
+  const target = nft.toLowerCase();
+  const result: WebhookMints = { eventId: body.id, mints: [], removed: [], complete: true };
+
+  for (const a of activity) {
+    const contract = (a.log?.address ?? a.rawContract?.address ?? "").toLowerCase();
+    if (contract !== target) continue;
+
+    const log = a.log;
+    const topics = log?.topics ?? [];
+    const blockNumber = hexToNumber(log?.blockNumber ?? a.blockNum);
+    const logIndex = hexToNumber(log?.logIndex);
+    if (!log || topics.length < 4 || !log.transactionHash || !Number.isFinite(blockNumber) || !Number.isFinite(logIndex)) {
+      result.complete = false;
+      continue;
+    }
+    // Mints only: Transfer(from = address(0))
+    if (topics[0].toLowerCase() !== TRANSFER_SIG || BigInt(topics[1]) !== BigInt(ZERO32)) continue;
+
+    const mint: RoundMint = {
+      account: ethers.getAddress("0x" + topics[2].slice(26)) as `0x${string}`,
+      tokenId: BigInt(topics[3]).toString(),
+      blockNumber,
+      txHash: log.transactionHash as `0x${string}`,
+      logIndex,
+    };
+    (log.removed ? result.removed : result.mints).push(mint);
+  }
+
+  return result;
+}
+
+export function webhookEventKey(eventId: string) {
+  return `${WEBHOOK_EVENTS_PREFIX}/${eventId.replace(/[^\w.-]/g, "_")}.json`;
+}
+
+// Records the delivery id; false when it was already processed. One create-if-absent key
+// per delivery, so concurrent redeliveries cannot both pass and never overwrite each other
+export async function rememberWebhookEvent(eventId: string): Promise<boolean> {
+  return getClaimsStore().create(webhookEventKey(eventId), JSON.stringify({ eventId, receivedAt: new Date().toISOString() }));
+}
+
+// Releases a delivery id whose rebuild did not apply it, so Alchemy's retry is processed
+export async function forgetWebhookEvent(eventId: string): Promise<void> {
+  await deleteKey(webhookEventKey(eventId));
+}
@@ -0,0 +1,268 @@
+// Claims builder CLI: the same code paths as /api/rebuild and /api/claims/*, from a shell.
+// Every command prints one JSON document to stdout and exits 1 when it reports ok: false.
+//
+//   npm run claims -- build [--round N] [--mode round|cumulative] [--out file]
+//   npm run claims -- verify <file> [--onchain]
+//   npm run claims -- proof <account> [--round N]
+//   npm run claims -- publish [--mode round|cumulative]
+//   npm run claims -- status
+//   npm run claims -- distribute [--multicall] [--batch N] [--limit N] [--dry-run]
+//
+// Env is read like `next dev` does (.env, .env.local, ...), so the CLI sees the same config.
+
+import "./load-env";
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { Contract, ethers, JsonRpcProvider } from "ethers";
+import { errorMessage, REBUILD_LOCK_KEY, rebuildAndPush, type RebuildResult } from "@/lib/rebuild";
+import { getClaimsStore, readJson } from "@/lib/store";
+import { readArchivedRound } from "@/lib/archive";
+import { getLockStore } from "@/lib/lock";
+import { PENDING_TX_KEY, type PendingTx } from "@/lib/publisher";
+import { loadIndexerState } from "@/lib/indexer";
+import { computePayloadRoot, encodeLeaf, verifyClaim, type ClaimsMode, type ProofsPayload } from "@/lib/merkle";
+import { checkPayload, payloadContentHash, type PayloadCheck } from "@/lib/signing";
+import { distributeClaims } from "@/lib/distribute";
+
+const PAYLOAD_KEY = "claims/current.json";
+
+const READ_ABI = [
+  "function merkleRoot() view returns (bytes32)",
+  "function round() view returns (uint64)",
+  "function owner() view returns (address)",
+] as const;
+
+type Output = { ok: boolean } & Record<string, unknown>;
+
+class UsageError extends Error {}
+
+function parseRound(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const round = Number(raw);
+  if (!Number.isSafeInteger(round) || round < 0) throw new UsageError(`invalid round "${raw}"`);
+  return round;
+}
+
+function parseMode(raw: string | undefined): ClaimsMode | undefined {
+  if (raw === undefined || raw === "round" || raw === "cumulative") return raw;
+  throw new UsageError(`invalid mode "${raw}"`);
+}
+
+function chain() {
+  const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL;
+  const distributor = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined;
+  if (!rpcUrl || !distributor) throw new UsageError("NEXT_PUBLIC_RPC_URL and NEXT_PUBLIC_DISTRIBUTOR_ADDRESS are required");
+  const provider = new JsonRpcProvider(rpcUrl);
+  return { provider, distributor, dist: new Contract(distributor, READ_ABI, provider) };
+}
+
+async function onchainState() {
+  const { distributor, dist } = chain();
+  const [root, round, owner] = (await Promise.all([dist.merkleRoot(), dist.round(), dist.owner()])) as [
+    `0x${string}`,
+    bigint,
+    `0x${string}`,
+  ];
+  return { distributor, root, round, owner };
+}
+
+// Results come straight from rebuildAndPush; the payload goes to --out instead of stdout
+function rebuildOutput(result: RebuildResult, out?: string): Output {
+  const { payload, ...rest } = result;
+  if (payload && out) {
+    fs.writeFileSync(out, JSON.stringify(payload, null, 2));
+    return { ...rest, out };
+  }
+  return rest;
+}
+
+async function build(values: { round?: string; mode?: string; out?: string }): Promise<Output> {
+  const round = parseRound(values.round);
+  const mode = parseMode(values.mode);
+  // Without --round this is the plan for the live round: nothing is written
+  const result = await rebuildAndPush(
+    round !== undefined ? { round, mode, includePayload: true } : { dryRun: true, mode, includePayload: true }
+  );
+  return rebuildOutput(result, values.out);
+}
+
+async function verify(file: string | undefined, values: { onchain?: boolean }): Promise<Output> {
+  if (!file) throw new UsageError("verify needs a payload file");
+  const payload = JSON.parse(fs.readFileSync(file, "utf8")) as ProofsPayload;
+
+  const computedRoot = computePayloadRoot(payload);
+  const rootMatches = computedRoot.toLowerCase() === payload.root.toLowerCase();
+  const badProofs = payload.claims.filter((c) => !verifyClaim(payload, c)).map((c) => c.account);
+  const contentHash = !payload.contentHash
+    ? "missing"
+    : payload.contentHash === payloadContentHash(payload) ? "ok" : "mismatch";
+
+  // Signature and freshness need the distributor and the expected signer; on-chain state only with --onchain
+  let check: PayloadCheck | undefined;
+  const distributor = process.env.NEXT_PUBLIC_DISTRIBUTOR_ADDRESS as `0x${string}` | undefined;
+  const signer = process.env.NEXT_PUBLIC_PUBLISHER_ADDRESS as `0x${string}` | undefined;
+  if (values.onchain) {
+    const state = await onchainState();
+    check = checkPayload(payload, {
+      distributor: state.distributor,
+      signer: state.owner,
+      onchainRoot: state.root,
+      onchainRound: state.round,
+    });
+  } else if (distributor && signer) {
+    check = checkPayload(payload, { distributor, signer });
+  }
+
+  return {
+    ok: rootMatches && badProofs.length === 0 && contentHash !== "mismatch" && (!check || check.status === "ok" || check.status === "unsigned"),
+    file,
+    mode: payload.mode ?? "round",
+    round: payload.round,
+    root: payload.root,
+    computedRoot,
+    rootMatches,
+    claims: payload.claims.length,
+    badProofs,
+    contentHash,
+    check,
+  };
+}
+
+async function proof(accountArg: string | undefined, values: { round?: string }): Promise<Output> {
+  if (!accountArg || !ethers.isAddress(accountArg)) throw new UsageError("proof needs an account address");
+  const account = ethers.getAddress(accountArg) as `0x${string}`;
+  const round = parseRound(values.round);
+
+  const payload = round === undefined ? await readJson<ProofsPayload>(PAYLOAD_KEY) : await readArchivedRound(round);
+  if (!payload) {
+    return { ok: false, error: round === undefined ? "no payload published yet" : `round ${round} is not archived` };
+  }
+
+  const mode = payload.mode ?? "round";
+  const claim = payload.claims.find((c) => c.account.toLowerCase() === account.toLowerCase()) ?? null;
+  return {
+    ok: true,
+    mode,
+    round: payload.round,
+    root: payload.root,
+    account,
+    eligible: !!claim,
+    leaf: claim ? encodeLeaf(mode, account, BigInt(claim.amount), BigInt(payload.round)) : null,
+    claim,
+    excluded: payload.excluded?.find((e) => e.account.toLowerCase() === account.toLowerCase()),
+  };
+}
+
+async function publish(values: { mode?: string }): Promise<Output> {
+  return rebuildOutput(await rebuildAndPush({ mode: parseMode(values.mode) }));
+}
+
+// Read-only: unlike a rebuild, it never clears a stale pending-tx record or lease
+async function status(): Promise<Output> {
+  const store = getClaimsStore();
+  const [published, onchain, pendingTx, lock, indexer] = await Promise.all([
+    readJson<ProofsPayload>(PAYLOAD_KEY),
+    onchainState(),
+    readJson<PendingTx>(PENDING_TX_KEY),
+    getLockStore().peek(REBUILD_LOCK_KEY),
+    loadIndexerState(),
+  ]);
+
+  const inSync = !!published &&
+    published.root.toLowerCase() === onchain.root.toLowerCase() &&
+    BigInt(published.round) === onchain.round;
+
+  return {
+    ok: true,
+    store: store.kind,
+    payloadUrl: store.url(PAYLOAD_KEY),
+    published: published && {
+      mode: published.mode ?? "round",
+      round: published.round,
+      root: published.root,
+      count: published.claims.length,
+      signed: !!published.signature,
+      check: checkPayload(published, {
+        distributor: onchain.distributor,
+        signer: onchain.owner,
+        onchainRoot: onchain.root,
+        onchainRound: onchain.round,
+      }),
+    },
+    onchain: { round: Number(onchain.round), root: onchain.root },
+    inSync,
+    indexedTo: indexer?.lastBlock,
+    pendingTx,
+    lock,
+  };
+}
+
+function parseCount(raw: string | undefined, flag: string): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isSafeInteger(n) || n < 1) throw new UsageError(`invalid ${flag} "${raw}"`);
+  return n;
+}
+
+// Claims on behalf of every account that has not claimed from the live payload yet.
+// Rerunning resumes from the report in the store; the full report goes to --out.
+async function distribute(values: { multicall?: boolean; batch?: string; limit?: string; "dry-run"?: boolean; out?: string }): Promise<Output> {
+  const payload = await readJson<ProofsPayload>(PAYLOAD_KEY);
+  if (!payload) return { ok: false, error: "no payload published yet" };
+  const result = await distributeClaims(payload, {
+    method: values.multicall ? "multicall" : "sequential",
+    batchSize: parseCount(values.batch, "--batch"),
+    limit: parseCount(values.limit, "--limit"),
+    dryRun: values["dry-run"],
+  });
+  if (!("report" in result) || !result.report) return result;
+  const { report, ...rest } = result;
+  if (values.out) {
+    fs.writeFileSync(values.out, JSON.stringify(report, null, 2));
+    return { ...rest, out: values.out };
+  }
+  return {
+    ...rest,
+    failed: report.entries.filter((e) => e.status === "failed"),
+    pending: report.entries.filter((e) => e.status === "sent"),
+  };
+}
+
+async function main(argv: string[]): Promise<Output> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      round: { type: "string" },
+      mode: { type: "string" },
+      out: { type: "string" },
+      onchain: { type: "boolean" },
+      multicall: { type: "boolean" },
+      batch: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+  const [command, arg] = positionals;
+
+  switch (command) {
+    case "build": return build(values);
+    case "verify": return verify(arg, values);
+    case "proof": return proof(arg, values);
+    case "publish": return publish(values);
+    case "status": return status();
+    case "distribute": return distribute(values);
+    default: throw new UsageError(command ? `unknown command "${command}"` : "missing command");
+  }
+}
+
+main(process.argv.slice(2))
+  .then((out) => {
+    console.log(JSON.stringify(out, null, 2));
+    process.exitCode = out.ok ? 0 : 1;
+  })
+  .catch((e) => {
+    const usage = e instanceof UsageError ? { usage: "build [--round N] [--out file] | verify <file> [--onchain] | proof <account> [--round N] | publish | status | distribute [--multicall] [--batch N] [--limit N] [--dry-run]" } : {};
+    console.log(JSON.stringify({ ok: false, error: errorMessage(e), ...usage }, null, 2));
+    process.exitCode = e instanceof UsageError ? 2 : 1;
+  });
@@ -0,0 +1,5 @@
+import { loadEnvConfig } from "@next/env";
+
+// Imported first by the CLI: lib/ modules read some settings while they load.
+// Info lines go to stderr so stdout stays a single JSON document.
+loadEnvConfig(process.cwd(), process.env.NODE_ENV !== "production", { info: console.error, error: console.error });